@@ -0,0 +1,91 @@
+import {
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from "@solana/web3.js";
+import { explainFailure, toError } from "./transaction";
+
+// Pack many per-name operations into as few transactions as fit.
+// Shared by the client, the CLI and the web page, so it stays free of Anchor.
+
+// The instructions for one name; they always travel in the same transaction
+export interface BatchItem {
+  name: string;
+  instructions: TransactionInstruction[];
+}
+
+// Outcome for one name; exactly one of `signature` and `error` is set
+export interface BatchResult {
+  name: string;
+  signature?: string;
+  error?: Error;
+}
+
+// Compute budget instructions the sender may add; counted so packed transactions still fit
+const BUDGET_INSTRUCTIONS = [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: 0 }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+];
+
+// Serialized size of a transaction carrying `instructions`, signatures included
+export function transactionSize(payer: PublicKey, instructions: TransactionInstruction[]) {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    // Any 32-byte value; only the length matters here
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [...BUDGET_INSTRUCTIONS, ...instructions],
+  }).compileToV0Message();
+  const signatures = message.header.numRequiredSignatures;
+  // Compact-u16 signature count (1 byte below 128) plus 64 bytes per signature
+  return 1 + signatures * 64 + message.serialize().length;
+}
+
+// Greedily group items in order; an item too large on its own still gets its own group
+export function packBatches(payer: PublicKey, items: BatchItem[], maxSize = PACKET_DATA_SIZE): BatchItem[][] {
+  const batches: BatchItem[][] = [];
+  let current: BatchItem[] = [];
+
+  for (const item of items) {
+    const candidate = [...current, item];
+    if (current.length > 0 && transactionSize(payer, candidate.flatMap((i) => i.instructions)) > maxSize) {
+      batches.push(current);
+      current = [item];
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+// Send each batch with `send`; when a batch fails its names are retried one by one,
+// so one bad name does not fail the rest. Results keep the order of `items`.
+export async function runBatches(
+  payer: PublicKey,
+  items: BatchItem[],
+  send: (instructions: TransactionInstruction[]) => Promise<string>
+): Promise<BatchResult[]> {
+  const results = new Map<BatchItem, BatchResult>();
+
+  const sendOne = async (batch: BatchItem[]) => {
+    try {
+      const signature = await send(batch.flatMap((i) => i.instructions));
+      batch.forEach((item) => results.set(item, { name: item.name, signature }));
+    } catch (thrown) {
+      const error = toError(thrown);
+      // Asking a wallet that just said no once per name would be worse than failing the batch
+      if (batch.length === 1 || explainFailure(thrown) === "UserRejected") {
+        batch.forEach((item) => results.set(item, { name: item.name, error }));
+        return;
+      }
+      for (const item of batch) await sendOne([item]);
+    }
+  };
+
+  for (const batch of packBatches(payer, items)) {
+    await sendOne(batch);
+  }
+  return items.map((item) => results.get(item)!);
+}
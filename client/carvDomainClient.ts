@@ -0,0 +1,1112 @@
+import * as anchor from "@coral-xyz/anchor";
+import { IdlTypes, Program, ProgramAccount, Provider } from "@coral-xyz/anchor";
+import { CarvDomain } from "../target/types/carv_domain";
+import idl from "../target/idl/carv_domain.json";
+import { randomBytes } from "crypto";
+import nacl from "tweetnacl";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getCommitmentHash,
+  getCommitmentPDA,
+  getConfigPDA,
+  getDomainPDA,
+  getListingPDA,
+  getMintPDA,
+  getPendingTransferPDA,
+  getProgramDataAddress,
+  getRecordPDA,
+  getRenewalVaultPDA,
+  getReversePDA,
+  getSubdomainPDA,
+  getTokenAccountAddress,
+  TOKEN_2022_PROGRAM_ID,
+} from "./pda";
+import {
+  Config,
+  decodeCommitment,
+  decodeConfig,
+  Domain,
+  DOMAIN_ACCOUNT_SIZES,
+  DOMAIN_DISCRIMINATOR,
+  DOMAIN_VERSION,
+  DOMAIN_RECORD_DISCRIMINATOR,
+  Listing,
+  LISTING_DISCRIMINATOR,
+  PendingTransfer,
+  RenewalVault,
+  RENEWAL_VAULT_DISCRIMINATOR,
+  decodeDomain,
+  decodeDomainRecord,
+  decodeListing,
+  decodePendingTransfer,
+  decodeRenewalVault,
+  decodeReverseRecord,
+  decodeSubdomain,
+  Subdomain,
+} from "./codec";
+import { DomainEvent, DomainEventName, eventDomain, matchesEventFilter, parseEventLogs } from "./events";
+import { BatchItem, BatchResult, runBatches } from "./batch";
+import { DomainStatus, getDomainStatus, isRegistrable, MIN_COMMITMENT_AGE_SECONDS } from "./lifecycle";
+import { MIN_LABEL_LEN, normalizeName, splitName, validateName } from "./names";
+import { PriceTable, quotePrice } from "./pricing";
+import { Claims, createProof, ProofCheck, verifyProof } from "./proofs";
+import { RecordKind, recordKey, validateRecord } from "./records";
+import { toError } from "./transaction";
+
+export interface CarvDomainClientOptions {
+  // Fee recipient; defaults to the treasury in the on-chain config
+  treasury?: anchor.web3.PublicKey;
+  // Use an already loaded program (e.g. anchor.workspace.CarvDomain)
+  program?: Program<CarvDomain>;
+}
+
+export interface SendOptions {
+  // Sign as this owner instead of the provider wallet; data and records also accept the manager
+  owner?: anchor.web3.Keypair;
+}
+
+// Registration term for register, renew and reclaim (default one year)
+export interface TermOptions extends SendOptions {
+  years?: number;
+}
+
+// First phase of registerPrivately; keep `salt` until the name is revealed
+export interface PendingCommitment {
+  name: string;
+  salt: Uint8Array;
+  address: anchor.web3.PublicKey;
+  signature: string;
+}
+
+export interface DomainFilter {
+  owner?: anchor.web3.PublicKey;
+  active?: boolean;
+}
+
+export interface EventSubscriptionFilter {
+  // Only events about this name (and its subdomains)
+  name?: string;
+  // Only events where this wallet is an owner, payer, sender or recipient
+  wallet?: anchor.web3.PublicKey;
+  events?: DomainEventName[];
+}
+
+// Where an event was emitted
+export interface DomainEventContext {
+  signature: string;
+  slot: number;
+  blockTime?: number | null;
+}
+
+export interface DomainHistoryEntry extends DomainEventContext {
+  event: DomainEvent;
+}
+
+// A top-level domain or subdomain resolved through its PDA
+export interface ResolvedName {
+  name: string;
+  address: anchor.web3.PublicKey;
+  owner: anchor.web3.PublicKey;
+  data: string;
+  // For subdomains this is the parent's expiry
+  expires: anchor.BN;
+  parent?: anchor.web3.PublicKey;
+  // False once the name (or its parent) has expired
+  valid: boolean;
+}
+
+// Subdomains stop resolving as soon as their parent expires or is reclaimed
+export function isSubdomainValid(
+  parent: Domain,
+  subdomain: Pick<Subdomain, "parentRegistered">,
+  now = Math.floor(Date.now() / 1000)
+) {
+  return parent.expires.toNumber() > now && parent.registered.eq(subdomain.parentRegistered);
+}
+
+// Wallet holding the single token of a wrapped domain's mint, or null if it is burned
+export async function getTokenHolder(connection: anchor.web3.Connection, mint: anchor.web3.PublicKey) {
+  const { value: largest } = await connection.getTokenLargestAccounts(mint);
+  const held = largest.find((account) => account.amount === "1");
+  const info = held && (await connection.getAccountInfo(held.address));
+  // Token accounts start with the mint followed by the owner
+  return info ? new anchor.web3.PublicKey(info.data.subarray(32, 64)) : null;
+}
+
+export class CarvDomainClient {
+  readonly program: Program<CarvDomain>;
+  readonly provider: Provider;
+  private readonly treasuryOverride?: anchor.web3.PublicKey;
+
+  constructor(provider: Provider, options: CarvDomainClientOptions = {}) {
+    this.provider = provider;
+    this.treasuryOverride = options.treasury;
+    this.program = options.program ?? new Program<CarvDomain>(idl as CarvDomain, provider);
+  }
+
+  // Build a client from a bare connection and wallet (browser or CLI)
+  static fromWallet(
+    connection: anchor.web3.Connection,
+    wallet: anchor.Wallet,
+    options: CarvDomainClientOptions = {}
+  ) {
+    const provider = new anchor.AnchorProvider(connection, wallet, anchor.AnchorProvider.defaultOptions());
+    return new CarvDomainClient(provider, options);
+  }
+
+  get programId() {
+    return this.program.programId;
+  }
+
+  get walletPublicKey() {
+    if (!this.provider.publicKey) throw new Error("Provider has no wallet");
+    return this.provider.publicKey;
+  }
+
+  get configAddress() {
+    const [pda] = getConfigPDA(this.programId);
+    return pda;
+  }
+
+  // Accepts any casing and an optional ".carv" suffix
+  domainAddress(name: string) {
+    const [pda] = getDomainPDA(normalizeName(name), this.programId);
+    return pda;
+  }
+
+  recordAddress(name: string, kind: RecordKind) {
+    const [pda] = getRecordPDA(this.domainAddress(name), kind, this.programId);
+    return pda;
+  }
+
+  subdomainAddress(fullName: string) {
+    const { parent, label } = splitName(fullName);
+    if (!label) throw new Error(`${fullName} is not a subdomain`);
+    const [pda] = getSubdomainPDA(this.domainAddress(parent), label, this.programId);
+    return pda;
+  }
+
+  pendingTransferAddress(name: string) {
+    const [pda] = getPendingTransferPDA(this.domainAddress(name), this.programId);
+    return pda;
+  }
+
+  listingAddress(name: string) {
+    const [pda] = getListingPDA(this.domainAddress(name), this.programId);
+    return pda;
+  }
+
+  // Each owner funds their own vault, so deposits never pass to the next owner
+  renewalVaultAddress(name: string, owner = this.walletPublicKey) {
+    const [pda] = getRenewalVaultPDA(this.domainAddress(name), owner, this.programId);
+    return pda;
+  }
+
+  reverseAddress(owner: anchor.web3.PublicKey) {
+    const [pda] = getReversePDA(owner, this.programId);
+    return pda;
+  }
+
+  // Token mint that holds the domain while it is wrapped; new for every registration
+  mintAddress(name: string, domain: Pick<Domain, "registered">) {
+    const [pda] = getMintPDA(this.domainAddress(name), domain.registered, this.programId);
+    return pda;
+  }
+
+  // Registers the canonical form of `name`; throws InvalidNameError if it has none
+  async register(name: string, opts: TermOptions = {}) {
+    const canonical = validateName(normalizeName(name));
+    return this.program.methods
+      .register(canonical, termOf(canonical, opts))
+      .accounts(await this.paymentAccounts(canonical, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Publish only a hash of `name`; registerWithReveal can claim it MIN_COMMITMENT_AGE_SECONDS later
+  async commit(name: string, opts: SendOptions = {}): Promise<PendingCommitment> {
+    const canonical = validateName(normalizeName(name));
+    const salt = Uint8Array.from(randomBytes(32));
+    const hash = getCommitmentHash(canonical, this.ownerOf(opts), salt);
+    const [address] = getCommitmentPDA(hash, this.programId);
+    const signature = await this.program.methods
+      .commit(Array.from(hash))
+      .accounts({
+        commitment: address,
+        owner: this.ownerOf(opts),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+    return { name: canonical, salt, address, signature };
+  }
+
+  // Must be signed by the wallet that committed, with the same salt
+  async registerWithReveal(name: string, salt: Uint8Array, opts: TermOptions = {}) {
+    const canonical = validateName(normalizeName(name));
+    const [commitment] = getCommitmentPDA(getCommitmentHash(canonical, this.ownerOf(opts), salt), this.programId);
+    return this.program.methods
+      .registerWithReveal(canonical, termOf(canonical, opts), Array.from(salt))
+      .accounts({ ...(await this.paymentAccounts(canonical, opts)), commitment })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Get back the rent of a commitment that was never revealed, once MAX_COMMITMENT_AGE_SECONDS have passed
+  async closeCommitment(commitment: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .closeCommitment()
+      .accounts({ commitment, owner: this.ownerOf(opts) })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Register without exposing the name before it is claimed: commit, wait out the
+  // minimum age on the cluster clock, then reveal
+  async registerPrivately(name: string, opts: TermOptions = {}) {
+    const pending = await this.commit(name, opts);
+    await this.waitForCommitment(pending.address);
+    return this.registerWithReveal(pending.name, pending.salt, opts);
+  }
+
+  async renew(name: string, opts: TermOptions = {}) {
+    return this.program.methods
+      .renew(termOf(name, opts))
+      .accounts(await this.renewAccounts(name, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Take over a name whose grace period has passed, paying a fresh registration
+  async reclaim(name: string, opts: TermOptions = {}) {
+    return this.program.methods
+      .reclaim(termOf(name, opts))
+      .accounts(await this.paymentAccounts(name, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Register (or reclaim, if lapsed) every name, packing as many as fit into each transaction
+  async registerMany(names: string[], opts: TermOptions = {}): Promise<BatchResult[]> {
+    return this.runBatch(names, opts, async (canonical) => {
+      const status = await this.getStatus(canonical);
+      if (!isRegistrable(status)) throw new Error(`${canonical}.carv is not available`);
+      const method =
+        status === "expired"
+          ? this.program.methods.reclaim(termOf(canonical, opts))
+          : this.program.methods.register(canonical, termOf(canonical, opts));
+      return method.accounts(await this.paymentAccounts(canonical, opts)).instruction();
+    });
+  }
+
+  async renewMany(names: string[], opts: TermOptions = {}): Promise<BatchResult[]> {
+    return this.runBatch(names, opts, async (canonical) =>
+      this.program.methods
+        .renew(termOf(canonical, opts))
+        .accounts(await this.renewAccounts(canonical, opts))
+        .instruction()
+    );
+  }
+
+  // Prepay renewals in lamports; crankRenew can then pay each year from the vault
+  async depositRenewal(name: string, lamports: anchor.BN | number, opts: SendOptions = {}) {
+    return this.program.methods
+      .depositRenewal(new anchor.BN(lamports))
+      .accounts({
+        domain: this.domainAddress(name),
+        vault: this.renewalVaultAddress(name, this.ownerOf(opts)),
+        owner: this.ownerOf(opts),
+        systemProgram: anchor.web3.SystemProgram.programId,
+        holderToken: await this.holderTokenOf(name, opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Close the signer's vault, returning its balance and rent
+  async withdrawRenewal(name: string, opts: SendOptions = {}) {
+    return this.program.methods
+      .withdrawRenewal()
+      .accounts({
+        domain: this.domainAddress(name),
+        vault: this.renewalVaultAddress(name, this.ownerOf(opts)),
+        owner: this.ownerOf(opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Lamports available for renewals, excluding the vault's rent; 0 if it has none
+  async getRenewalBalance(name: string, owner = this.walletPublicKey) {
+    const connection = this.provider.connection;
+    const info = await connection.getAccountInfo(this.renewalVaultAddress(name, owner));
+    if (!info) return 0;
+    return Math.max(0, info.lamports - (await connection.getMinimumBalanceForRentExemption(info.data.length)));
+  }
+
+  // Every renewal vault; those of earlier owners no longer pay for their domain
+  async getRenewalVaults(): Promise<ProgramAccount<RenewalVault>[]> {
+    const accounts = await this.provider.connection.getProgramAccounts(this.programId, {
+      filters: [{ memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(RENEWAL_VAULT_DISCRIMINATOR) } }],
+    });
+    return accounts.map(({ pubkey, account }) => ({ publicKey: pubkey, account: decodeRenewalVault(account.data) }));
+  }
+
+  // Permissionless; renews for a year from the owner's vault within AUTO_RENEW_WINDOW_SECONDS of expiry
+  async crankRenew(name: string) {
+    return this.program.methods
+      .crankRenew()
+      .accounts(await this.crankAccounts(name))
+      .rpc();
+  }
+
+  // Crank several names, packing as many as fit into each transaction
+  async crankRenewMany(names: string[]): Promise<BatchResult[]> {
+    return this.runBatch(names, {}, async (canonical) =>
+      this.program.methods
+        .crankRenew()
+        .accounts(await this.crankAccounts(canonical))
+        .instruction()
+    );
+  }
+
+  // Permissionless; marks an expired domain inactive
+  async expire(name: string) {
+    return this.program.methods.expire().accounts({ domain: this.domainAddress(name) }).rpc();
+  }
+
+  // Close the Domain account and refund its rent; anyone may register the name again
+  async release(name: string, opts: SendOptions = {}) {
+    return this.program.methods
+      .release()
+      .accounts({
+        domain: this.domainAddress(name),
+        owner: this.ownerOf(opts),
+        reverse: this.reverseAddress(this.ownerOf(opts)),
+        pending: this.pendingTransferAddress(name),
+        listing: this.listingAddress(name),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Permissionless; rewrites a name stored in an older account layout. The signer pays
+  // the rent of the added bytes.
+  // Pass the address from getOutdatedDomains for a legacy name that today's rules would rewrite
+  async migrate(domain: string | anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .migrate()
+      .accounts(this.migrateAccounts(domain, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async migrateMany(names: string[], opts: SendOptions = {}): Promise<BatchResult[]> {
+    return this.runBatch(names, opts, (canonical) =>
+      this.program.methods.migrate().accounts(this.migrateAccounts(canonical, opts)).instruction()
+    );
+  }
+
+  // Migrate accounts found by getOutdatedDomains at their own addresses. Names registered
+  // under older rules (e.g. with uppercase letters) keep their original seeds, so they are
+  // neither normalized nor validated here.
+  async migrateOutdated(domains: ProgramAccount<Domain>[], opts: SendOptions = {}): Promise<BatchResult[]> {
+    const items: BatchItem[] = [];
+    for (const { publicKey, account } of domains) {
+      const instruction = this.program.methods.migrate().accounts(this.migrateAccounts(publicKey, opts));
+      items.push({ name: account.name, instructions: [await instruction.instruction()] });
+    }
+    return runBatches(this.walletPublicKey, items, (instructions) =>
+      this.provider.sendAndConfirm!(new anchor.web3.Transaction().add(...instructions), this.signersOf(opts))
+    );
+  }
+
+  // Domain accounts still in an older layout, found by their size
+  async getOutdatedDomains(): Promise<ProgramAccount<Domain>[]> {
+    const bytes = anchor.utils.bytes.bs58.encode(DOMAIN_DISCRIMINATOR);
+    const found = await Promise.all(
+      DOMAIN_ACCOUNT_SIZES.slice(0, DOMAIN_VERSION).map((dataSize) =>
+        this.provider.connection.getProgramAccounts(this.programId, {
+          filters: [{ dataSize }, { memcmp: { offset: 0, bytes } }],
+        })
+      )
+    );
+    return found.flat().map(({ pubkey, account }) => ({ publicKey: pubkey, account: decodeDomain(account.data) }));
+  }
+
+  async transfer(name: string, newOwner: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .transfer(newOwner)
+      .accounts({
+        domain: this.domainAddress(name),
+        owner: this.ownerOf(opts),
+        reverse: this.reverseAddress(this.ownerOf(opts)),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // First step of a transfer; `newOwner` must call acceptTransfer
+  async proposeTransfer(name: string, newOwner: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .proposeTransfer(newOwner)
+      .accounts({
+        domain: this.domainAddress(name),
+        pending: this.pendingTransferAddress(name),
+        owner: this.ownerOf(opts),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Signed by the proposed recipient
+  async acceptTransfer(name: string, opts: SendOptions = {}) {
+    const pending = await this.getPendingTransfer(name);
+    if (!pending) throw new Error(`${name}.carv has no pending transfer`);
+    return this.program.methods
+      .acceptTransfer()
+      .accounts({
+        domain: this.domainAddress(name),
+        pending: this.pendingTransferAddress(name),
+        recipient: this.ownerOf(opts),
+        from: pending.from,
+        reverse: this.reverseAddress(pending.from),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // The proposer, or the current owner once the name has changed hands since the proposal
+  async cancelTransfer(name: string, opts: SendOptions = {}) {
+    const pending = await this.getPendingTransfer(name);
+    if (!pending) throw new Error(`${name}.carv has no pending transfer`);
+    return this.program.methods
+      .cancelTransfer()
+      .accounts({
+        domain: this.domainAddress(name),
+        pending: this.pendingTransferAddress(name),
+        from: pending.from,
+        owner: this.ownerOf(opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async getPendingTransfer(name: string): Promise<PendingTransfer | null> {
+    const info = await this.provider.connection.getAccountInfo(this.pendingTransferAddress(name));
+    return info ? decodePendingTransfer(info.data) : null;
+  }
+
+  // Offer the name for `price` lamports
+  async listDomain(name: string, price: anchor.BN | number, opts: SendOptions = {}) {
+    return this.program.methods
+      .listDomain(new anchor.BN(price))
+      .accounts({
+        domain: this.domainAddress(name),
+        listing: this.listingAddress(name),
+        owner: this.ownerOf(opts),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // The seller, or the current owner once the name has changed hands since the listing
+  async delistDomain(name: string, opts: SendOptions = {}) {
+    const listing = await this.getListing(name);
+    if (!listing) throw new Error(`${name}.carv is not for sale`);
+    return this.program.methods
+      .delistDomain()
+      .accounts({
+        domain: this.domainAddress(name),
+        listing: this.listingAddress(name),
+        seller: listing.seller,
+        owner: this.ownerOf(opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // `price` is what the buyer agreed to; the program rejects it if the listing changed
+  async buyDomain(name: string, price: anchor.BN | number, opts: SendOptions = {}) {
+    const listing = await this.getListing(name);
+    if (!listing) throw new Error(`${name}.carv is not for sale`);
+    return this.program.methods
+      .buyDomain(new anchor.BN(price))
+      .accounts({
+        domain: this.domainAddress(name),
+        listing: this.listingAddress(name),
+        buyer: this.ownerOf(opts),
+        seller: listing.seller,
+        reverse: this.reverseAddress(listing.seller),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async getListing(name: string): Promise<Listing | null> {
+    const info = await this.provider.connection.getAccountInfo(this.listingAddress(name));
+    return info ? decodeListing(info.data) : null;
+  }
+
+  // All open listings; some may be stale if the name changed hands since
+  async getListings(): Promise<ProgramAccount<Listing>[]> {
+    const accounts = await this.provider.connection.getProgramAccounts(this.programId, {
+      filters: [{ memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(LISTING_DISCRIMINATOR) } }],
+    });
+    return accounts.map(({ pubkey, account }) => ({ publicKey: pubkey, account: decodeListing(account.data) }));
+  }
+
+  // Owner only; pass null to revoke. The manager is cleared whenever the name changes hands
+  async setManager(name: string, manager: anchor.web3.PublicKey | null, opts: SendOptions = {}) {
+    return this.program.methods
+      .setManager(manager)
+      .accounts({
+        domain: this.domainAddress(name),
+        owner: this.ownerOf(opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setData(name: string, data: string, opts: SendOptions = {}) {
+    return this.program.methods
+      .setData(data)
+      .accounts({
+        domain: this.domainAddress(name),
+        authority: this.ownerOf(opts),
+        holderToken: await this.holderTokenOf(name, opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Make `name` the primary name shown for its owner's wallet
+  async setPrimaryName(name: string, opts: SendOptions = {}) {
+    const owner = this.ownerOf(opts);
+    return this.program.methods
+      .setPrimary()
+      .accounts({
+        domain: this.domainAddress(name),
+        reverse: this.reverseAddress(owner),
+        owner,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async clearPrimaryName(opts: SendOptions = {}) {
+    const owner = this.ownerOf(opts);
+    return this.program.methods
+      .clearPrimary()
+      .accounts({
+        reverse: this.reverseAddress(owner),
+        owner,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Primary name of a wallet, or null if none is set or it no longer holds it
+  async resolvePrimaryName(owner: anchor.web3.PublicKey): Promise<string | null> {
+    const info = await this.provider.connection.getAccountInfo(this.reverseAddress(owner));
+    if (!info) return null;
+
+    const record = decodeReverseRecord(info.data);
+    const domainInfo = await this.provider.connection.getAccountInfo(record.domain);
+    if (!domainInfo) return null;
+
+    const domain = decodeDomain(domainInfo.data);
+    const now = Math.floor(Date.now() / 1000);
+    if (!domain.owner.equals(owner) || domain.expires.toNumber() <= now) return null;
+    return domain.name;
+  }
+
+  // Validates `value` for its kind before sending, like the program does
+  async setRecord(name: string, kind: RecordKind, value: string, opts: SendOptions = {}) {
+    const normalized = validateRecord(kind, value);
+    return this.program.methods
+      .setRecord(toIdlRecordKind(kind), normalized)
+      .accounts({
+        domain: this.domainAddress(name),
+        record: this.recordAddress(name, kind),
+        authority: this.ownerOf(opts),
+        holderToken: await this.holderTokenOf(name, opts),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async deleteRecord(name: string, kind: RecordKind, opts: SendOptions = {}) {
+    return this.program.methods
+      .deleteRecord(toIdlRecordKind(kind))
+      .accounts({
+        domain: this.domainAddress(name),
+        record: this.recordAddress(name, kind),
+        authority: this.ownerOf(opts),
+        holderToken: await this.holderTokenOf(name, opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Records written before the domain was reclaimed are ignored
+  async getRecord(name: string, kind: RecordKind): Promise<string | null> {
+    const [domain, info] = await Promise.all([
+      this.fetchDomain(name),
+      this.provider.connection.getAccountInfo(this.recordAddress(name, kind)),
+    ]);
+    if (!domain || !info) return null;
+    const record = decodeDomainRecord(info.data);
+    return record.domainRegistered.eq(domain.registered) ? record.value : null;
+  }
+
+  // All records of a domain keyed by their JSON key (e.g. "twitter")
+  async getRecords(name: string): Promise<Record<string, string>> {
+    const [domain, accounts] = await Promise.all([
+      this.fetchDomain(name),
+      this.provider.connection.getProgramAccounts(this.programId, {
+        filters: [
+          { memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(DOMAIN_RECORD_DISCRIMINATOR) } },
+          { memcmp: { offset: 8, bytes: this.domainAddress(name).toBase58() } },
+        ],
+      }),
+    ]);
+
+    const records: Record<string, string> = {};
+    if (!domain) return records;
+    for (const { account } of accounts) {
+      const record = decodeDomainRecord(account.data);
+      if (!record.domainRegistered.eq(domain.registered)) continue;
+      records[recordKey(record.kind)] = record.value;
+    }
+    return records;
+  }
+
+  // Sign identity claims such as {"twitter":"alice"} and store them with the proof as the name's data.
+  // Signs with opts.owner, else the provider's keypair wallet; that must be the token holder of a wrapped name.
+  async createProof(name: string, claims: Claims, opts: SendOptions = {}) {
+    const signer = opts.owner ?? (this.provider as anchor.AnchorProvider).wallet?.payer;
+    if (!signer) throw new Error("Signing a proof needs the owner's keypair");
+    const domain = await this.requireDomain(name);
+    const owner = await this.ownerOfDomain(name, domain);
+    const data = await createProof(domain, claims, (message) => nacl.sign.detached(message, signer.secretKey), owner);
+    return this.setData(name, data, opts);
+  }
+
+  // Checks the proof in the name's data against whoever holds the name now
+  async verifyProof(name: string): Promise<ProofCheck | null> {
+    const domain = await this.fetchDomain(name);
+    return domain ? verifyProof(domain, await this.ownerOfDomain(name, domain)) : null;
+  }
+
+  // Only the parent's owner can create subdomains; `owner` defaults to them
+  async createSubdomain(
+    parentName: string,
+    label: string,
+    owner?: anchor.web3.PublicKey,
+    opts: SendOptions = {}
+  ) {
+    const parentOwner = this.ownerOf(opts);
+    const parent = this.domainAddress(parentName);
+    const canonical = validateName(normalizeName(label), MIN_LABEL_LEN);
+    const [subdomain] = getSubdomainPDA(parent, canonical, this.programId);
+    return this.program.methods
+      .createSubdomain(canonical, owner ?? parentOwner)
+      .accounts({
+        parent,
+        subdomain,
+        parentOwner,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setSubdomainData(fullName: string, data: string, opts: SendOptions = {}) {
+    return this.program.methods
+      .setSubdomainData(data)
+      .accounts(this.subdomainAccounts(fullName, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async transferSubdomain(fullName: string, newOwner: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .transferSubdomain(newOwner)
+      .accounts(this.subdomainAccounts(fullName, opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Signed by the parent's owner
+  async deleteSubdomain(fullName: string, opts: SendOptions = {}) {
+    const { parent } = splitName(fullName);
+    return this.program.methods
+      .deleteSubdomain()
+      .accounts({
+        parent: this.domainAddress(parent),
+        subdomain: this.subdomainAddress(fullName),
+        parentOwner: this.ownerOf(opts),
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async fetchSubdomain(fullName: string): Promise<Subdomain | null> {
+    const info = await this.provider.connection.getAccountInfo(this.subdomainAddress(fullName));
+    return info ? decodeSubdomain(info.data) : null;
+  }
+
+  // Mint a 1-of-1 token for the name into the owner's token account.
+  // While wrapped, only the token holder can act on the name, by unwrapping it first.
+  async wrap(name: string, opts: SendOptions = {}) {
+    const owner = this.ownerOf(opts);
+    const mint = this.mintAddress(name, await this.requireDomain(name));
+    return this.program.methods
+      .wrap()
+      .accounts({
+        domain: this.domainAddress(name),
+        mint,
+        token: getTokenAccountAddress(owner, mint),
+        owner,
+        tokenProgram: TOKEN_2022_PROGRAM_ID,
+        associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  // Burn the token and take the name back as a plain owner; signed by the token holder
+  async unwrap(name: string, opts: SendOptions = {}) {
+    const holder = this.ownerOf(opts);
+    const mint = this.mintAddress(name, await this.requireDomain(name));
+    return this.program.methods
+      .unwrap()
+      .accounts({
+        domain: this.domainAddress(name),
+        mint,
+        token: getTokenAccountAddress(holder, mint),
+        holder,
+        tokenProgram: TOKEN_2022_PROGRAM_ID,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  isWrapped(name: string, domain: Domain) {
+    return domain.owner.equals(this.mintAddress(name, domain));
+  }
+
+  // Wallet that controls the name: its owner, or the token holder while wrapped.
+  // Null if the name was never registered.
+  async getOwner(name: string): Promise<anchor.web3.PublicKey | null> {
+    const domain = await this.fetchDomain(name);
+    if (!domain) return null;
+    return this.ownerOfDomain(name, domain);
+  }
+
+  // Resolve "team", "team.carv" or "alice.team.carv"; null if not registered
+  async resolveName(name: string): Promise<ResolvedName | null> {
+    const { parent, label } = splitName(name);
+    const domain = await this.fetchDomain(parent);
+    if (!domain) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (!label) {
+      return {
+        name: parent,
+        address: this.domainAddress(parent),
+        owner: await this.ownerOfDomain(parent, domain),
+        data: domain.data,
+        expires: domain.expires,
+        valid: domain.expires.toNumber() > now,
+      };
+    }
+
+    const subdomain = await this.fetchSubdomain(name);
+    if (!subdomain) return null;
+    return {
+      name: `${label}.${parent}`,
+      address: this.subdomainAddress(name),
+      owner: subdomain.owner,
+      data: subdomain.data,
+      expires: domain.expires,
+      parent: subdomain.parent,
+      valid: isSubdomainValid(domain, subdomain, now),
+    };
+  }
+
+  // Returns null when the name has never been registered
+  async fetchDomain(name: string): Promise<Domain | null> {
+    const info = await this.provider.connection.getAccountInfo(this.domainAddress(name));
+    return info ? decodeDomain(info.data) : null;
+  }
+
+  // Null until initializeConfig has been run for this deployment
+  async getConfig(): Promise<Config | null> {
+    const info = await this.provider.connection.getAccountInfo(this.configAddress);
+    return info ? decodeConfig(info.data) : null;
+  }
+
+  async getTreasury() {
+    if (this.treasuryOverride) return this.treasuryOverride;
+    const config = await this.getConfig();
+    if (!config) throw new Error("Program config is not initialized");
+    return config.treasury;
+  }
+
+  // Lamports register or renew will charge, using the live on-chain prices
+  async quotePrice(name: string, years = 1) {
+    const config = await this.getConfig();
+    const canonical = normalizeName(name);
+    return config ? quotePrice(canonical, years, config) : quotePrice(canonical, years);
+  }
+
+  // Admin: the signer, who must be the program's upgrade authority, becomes the config authority
+  async initializeConfig(treasury: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .initializeConfig(treasury)
+      .accounts({
+        config: this.configAddress,
+        authority: this.ownerOf(opts),
+        programData: getProgramDataAddress(this.program.programId),
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setAuthority(newAuthority: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .setAuthority(newAuthority)
+      .accounts(this.adminAccounts(opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setTreasury(treasury: anchor.web3.PublicKey, opts: SendOptions = {}) {
+    return this.program.methods
+      .setTreasury(treasury)
+      .accounts(this.adminAccounts(opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setPrices(prices: PriceTable, opts: SendOptions = {}) {
+    return this.program.methods
+      .setPrices(prices.price3Chars, prices.price4Chars, prices.priceDefault)
+      .accounts(this.adminAccounts(opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async setPaused(paused: boolean, opts: SendOptions = {}) {
+    return this.program.methods
+      .setPaused(paused)
+      .accounts(this.adminAccounts(opts))
+      .signers(this.signersOf(opts))
+      .rpc();
+  }
+
+  async getStatus(name: string): Promise<DomainStatus> {
+    return getDomainStatus(await this.fetchDomain(name));
+  }
+
+  async listDomains(filter: DomainFilter = {}): Promise<ProgramAccount<Domain>[]> {
+    const filters: anchor.web3.GetProgramAccountsFilter[] = [
+      { memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(DOMAIN_DISCRIMINATOR) } },
+    ];
+    if (filter.owner) {
+      // owner is the first field after the 8-byte discriminator
+      filters.push({ memcmp: { offset: 8, bytes: filter.owner.toBase58() } });
+    }
+
+    const accounts = await this.provider.connection.getProgramAccounts(this.programId, { filters });
+    const domains = accounts.map(({ pubkey, account }) => ({
+      publicKey: pubkey,
+      account: decodeDomain(account.data),
+    }));
+    if (filter.active === undefined) return domains;
+    return domains.filter((d) => d.account.active === filter.active);
+  }
+
+  // Calls `callback` for every matching event in confirmed transactions; returns an unsubscribe function
+  onDomainEvent(
+    filter: EventSubscriptionFilter,
+    callback: (event: DomainEvent, context: DomainEventContext) => void
+  ) {
+    const connection = this.provider.connection;
+    const match = {
+      events: filter.events,
+      wallet: filter.wallet,
+      domain: filter.name === undefined ? undefined : this.domainAddress(filter.name),
+    };
+    const id = connection.onLogs(
+      this.programId,
+      (logs, ctx) => {
+        if (logs.err) return;
+        for (const event of parseEventLogs(logs.logs, this.programId)) {
+          if (matchesEventFilter(event, match)) callback(event, { signature: logs.signature, slot: ctx.slot });
+        }
+      },
+      "confirmed"
+    );
+    return () => connection.removeOnLogsListener(id);
+  }
+
+  // Past events of a name, oldest first, from the last `limit` transactions that touched it
+  async getHistory(name: string, limit = 100): Promise<DomainHistoryEntry[]> {
+    const connection = this.provider.connection;
+    const address = this.domainAddress(name);
+    const signatures = await connection.getSignaturesForAddress(address, { limit }, "confirmed");
+
+    const history: DomainHistoryEntry[] = [];
+    for (const { signature, slot, blockTime, err } of signatures.reverse()) {
+      if (err) continue;
+      const tx = await connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      for (const event of parseEventLogs(tx?.meta?.logMessages ?? [], this.programId)) {
+        if (eventDomain(event)?.equals(address)) history.push({ signature, slot, blockTime, event });
+      }
+    }
+    return history;
+  }
+
+  // Names that fail validation or while building their instruction are reported without being sent
+  private async runBatch(
+    names: string[],
+    opts: SendOptions,
+    build: (canonical: string) => Promise<anchor.web3.TransactionInstruction>
+  ): Promise<BatchResult[]> {
+    // Results are reported under the canonical name once it is known
+    const results: (BatchResult | BatchItem)[] = [];
+    for (const name of names) {
+      try {
+        const canonical = validateName(normalizeName(name));
+        results.push({ name: canonical, instructions: [await build(canonical)] });
+      } catch (error) {
+        results.push({ name, error: toError(error) });
+      }
+    }
+
+    const items = results.filter((r): r is BatchItem => "instructions" in r);
+    const sent = await runBatches(this.walletPublicKey, items, (instructions) =>
+      this.provider.sendAndConfirm!(new anchor.web3.Transaction().add(...instructions), this.signersOf(opts))
+    );
+    return results.map((r) => ("instructions" in r ? sent[items.indexOf(r)] : r));
+  }
+
+  // Accounts shared by register, renew and reclaim
+  private async paymentAccounts(name: string, opts: SendOptions) {
+    return {
+      domain: this.domainAddress(name),
+      owner: this.ownerOf(opts),
+      config: this.configAddress,
+      treasury: await this.getTreasury(),
+      systemProgram: anchor.web3.SystemProgram.programId,
+    };
+  }
+
+  private async renewAccounts(name: string, opts: SendOptions) {
+    return { ...(await this.paymentAccounts(name, opts)), ...(await this.holderAccounts(name, this.ownerOf(opts))) };
+  }
+
+  // Let the token holder act as owner of a wrapped name. All null for a plain name, and
+  // holderToken is null for a signer without the token, which the program rejects as NotOwner.
+  private async holderAccounts(name: string, signer: anchor.web3.PublicKey) {
+    const domain = await this.fetchDomain(name);
+    if (!domain || !this.isWrapped(name, domain)) return { holderToken: null, mint: null, tokenProgram: null };
+    const token = getTokenAccountAddress(signer, domain.owner);
+    const held = await this.provider.connection.getAccountInfo(token);
+    return { holderToken: held ? token : null, mint: domain.owner, tokenProgram: TOKEN_2022_PROGRAM_ID };
+  }
+
+  private async holderTokenOf(name: string, opts: SendOptions) {
+    return (await this.holderAccounts(name, this.ownerOf(opts))).holderToken;
+  }
+
+  private migrateAccounts(domain: string | anchor.web3.PublicKey, opts: SendOptions) {
+    return {
+      domain: typeof domain === "string" ? this.domainAddress(domain) : domain,
+      payer: this.ownerOf(opts),
+      systemProgram: anchor.web3.SystemProgram.programId,
+    };
+  }
+
+  // The vault that pays is always the current owner's, or the token holder's while wrapped
+  private async crankAccounts(name: string) {
+    const owner = await this.ownerOfDomain(name, await this.requireDomain(name));
+    return {
+      domain: this.domainAddress(name),
+      vault: this.renewalVaultAddress(name, owner),
+      config: this.configAddress,
+      treasury: await this.getTreasury(),
+      ...(await this.holderAccounts(name, owner)),
+    };
+  }
+
+  private adminAccounts(opts: SendOptions) {
+    return { config: this.configAddress, authority: this.ownerOf(opts) };
+  }
+
+  private subdomainAccounts(fullName: string, opts: SendOptions) {
+    const { parent } = splitName(fullName);
+    return {
+      parent: this.domainAddress(parent),
+      subdomain: this.subdomainAddress(fullName),
+      owner: this.ownerOf(opts),
+    };
+  }
+
+  private async requireDomain(name: string) {
+    const domain = await this.fetchDomain(name);
+    if (!domain) throw new Error(`${normalizeName(name)}.carv is not registered`);
+    return domain;
+  }
+
+  private async ownerOfDomain(name: string, domain: Domain) {
+    if (!this.isWrapped(name, domain)) return domain.owner;
+    return (await getTokenHolder(this.provider.connection, domain.owner)) ?? domain.owner;
+  }
+
+  private async waitForCommitment(address: anchor.web3.PublicKey) {
+    const connection = this.provider.connection;
+    const info = await connection.getAccountInfo(address);
+    if (!info) throw new Error(`Commitment ${address.toBase58()} not found`);
+    const revealAt = decodeCommitment(info.data).created.toNumber() + MIN_COMMITMENT_AGE_SECONDS;
+
+    for (;;) {
+      const now = (await connection.getBlockTime(await connection.getSlot())) ?? 0;
+      if (now >= revealAt) return;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(revealAt - now, 5) * 1000));
+    }
+  }
+
+  private ownerOf(opts: SendOptions) {
+    return opts.owner ? opts.owner.publicKey : this.walletPublicKey;
+  }
+
+  private signersOf(opts: SendOptions) {
+    return opts.owner ? [opts.owner] : [];
+  }
+}
+
+// Validates `years` up front with the same bounds as the program
+function termOf(name: string, opts: TermOptions) {
+  const years = opts.years ?? 1;
+  quotePrice(name, years);
+  return years;
+}
+
+// Anchor encodes enum arguments as `{ variantName: {} }`
+function toIdlRecordKind(kind: RecordKind) {
+  return { [recordKey(kind)]: {} } as IdlTypes<CarvDomain>["RecordKind"];
+}
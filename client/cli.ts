@@ -0,0 +1,670 @@
+import * as anchor from "@coral-xyz/anchor";
+import { parseArgs } from "util";
+import { BatchResult } from "./batch";
+import { CarvDomainClient } from "./carvDomainClient";
+import { Domain, MAX_DATA_LEN } from "./codec";
+import { getProgramErrorName, ProgramErrorName } from "./errors";
+import { loadKeypair } from "./keypair";
+import { DomainStatus, getDomainStatus, isRegistrable } from "./lifecycle";
+import { InvalidNameError, normalizeName, splitName, validateName } from "./names";
+import { formatSol, InvalidYearsError, MAX_YEARS } from "./pricing";
+import { Claims, InvalidProofError } from "./proofs";
+import { InvalidRecordError, parseRecordKind } from "./records";
+import { toError } from "./transaction";
+
+const USAGE = `Usage: carv <command> [args] [options]
+
+Commands:
+  search <name>                 Check whether a name is available
+  register <name>...            Register names (or reclaim expired ones)
+  renew <name>...               Extend names; several names share transactions
+  auto-renew <name> <sol>       Prepay renewals; anyone can renew the name from them in its
+                                last 30 days
+  auto-renew-withdraw <name>    Take back your prepaid renewals
+  transfer <name> <pubkey>      Offer a name to another wallet (they must accept)
+  accept-transfer <name>        Accept a name offered to your wallet
+  cancel-transfer <name>        Withdraw a transfer you proposed
+  sell <name> <sol>             List a name for sale at a fixed price
+  delist <name>                 Remove your listing
+  buy <name> <sol>              Buy a listed name at its listed price
+  wrap <name>                   Mint a token for the name so wallets and marketplaces can hold it
+  unwrap <name>                 Burn the name's token and own the name directly again
+  migrate <name>                Rewrite a name stored in an older account format (you pay the
+                                added rent)
+  release <name>                Give up a name and get its rent back; anyone can register it again
+  set-manager <name> <pubkey|none>
+                                Let another wallet edit data and records (none revokes)
+  set-data <name> <json>        Replace the name's data with a JSON object
+  prove <name> <json>           Sign the handles in a JSON object (e.g. {"twitter":"alice"}) and
+                                store them with the proof as the name's data
+  verify <name>                 Check that the handles in the name's data are signed by its owner
+  set-record <name> <type> <value>
+                                Set one record (sol, eth, btc, url, avatar, twitter,
+                                github, email, ipfs, arweave)
+  delete-record <name> <type>   Remove one record
+  list --owner <pubkey>         List names held by a wallet
+  whois <name>                  Show owner, expiry and data of a name or subdomain
+  create-subdomain <parent> <label>
+                                Create label.parent.carv (--owner to assign it)
+  set-primary <name>            Show this name for your wallet
+  reverse <pubkey>              Show the primary name of a wallet
+  config                        Show the program's treasury, prices and pause state
+
+Options:
+  -k, --keypair <path>          Signer keypair (default ~/.config/solana/id.json)
+  -u, --cluster <name|url>      localnet, devnet, testnet, mainnet-beta, carv-testnet or an RPC URL
+      --treasury <pubkey>       Fee recipient for register and renew (default: from program config)
+      --years <n>               Term for register and renew, 1-${MAX_YEARS} (default 1)
+      --owner <pubkey>          Owner filter for list, owner of a new subdomain (default: keypair)
+      --private                 Register by commit and reveal, so the name is not public until
+                                it is claimed (takes about a minute)
+      --json                    Print machine-readable JSON
+  -h, --help                    Show this help
+`;
+
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  usage: 2,
+  notFound: 3,
+  unverified: 4,
+} as const;
+
+// Program errors scripts are expected to branch on
+export const PROGRAM_ERROR_EXIT_CODES: Partial<Record<ProgramErrorName, number>> = {
+  NotOwner: 10,
+  Expired: 11,
+  InvalidLen: 12,
+  InvalidChar: 13,
+  InvalidHyphen: 13,
+  InvalidRecord: 14,
+  NotReclaimable: 15,
+  Paused: 16,
+  NotRecipient: 17,
+  StaleOffer: 18,
+  PriceMismatch: 19,
+};
+
+const STATUS_TEXT: Record<DomainStatus, string> = {
+  active: "is taken",
+  grace: "has expired and is in its grace period (owner can still renew)",
+  expired: "has expired and can be registered",
+  available: "is available",
+};
+
+const CLUSTERS: Record<string, string> = {
+  localnet: "http://127.0.0.1:8899",
+  devnet: anchor.web3.clusterApiUrl("devnet"),
+  testnet: anchor.web3.clusterApiUrl("testnet"),
+  "mainnet-beta": anchor.web3.clusterApiUrl("mainnet-beta"),
+  "carv-testnet": "https://rpc.testnet.carv.io/rpc",
+};
+
+class UsageError extends Error {}
+
+interface Output {
+  json: boolean;
+}
+
+function print(out: Output, human: string, json: unknown) {
+  console.log(out.json ? JSON.stringify(json, null, 2) : human);
+}
+
+function parsePubkey(value: string | undefined, label: string) {
+  if (!value) throw new UsageError(`Missing ${label}`);
+  try {
+    return new anchor.web3.PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid ${label}: ${value}`);
+  }
+}
+
+// "0.5" SOL -> lamports
+function parseSol(value: string | undefined, label: string) {
+  if (!value) throw new UsageError(`Missing ${label}`);
+  const sol = Number(value);
+  if (!Number.isFinite(sol) || sol <= 0) throw new UsageError(`Invalid ${label}: ${value}`);
+  return Math.round(sol * anchor.web3.LAMPORTS_PER_SOL);
+}
+
+function domainToJson(name: string, domain: Domain) {
+  return {
+    name,
+    owner: domain.owner.toBase58(),
+    registered: domain.registered.toNumber(),
+    expires: domain.expires.toNumber(),
+    active: domain.active,
+    status: getDomainStatus(domain),
+    data: domain.data,
+    manager: domain.manager?.toBase58() ?? null,
+  };
+}
+
+function describeDomain(domain: Domain, records: Record<string, string> = {}) {
+  const expires = new Date(domain.expires.toNumber() * 1000);
+  const lines = [
+    `${domain.name}.carv`,
+    `  Owner:   ${domain.owner.toBase58()}`,
+    `  Expires: ${expires.toISOString()}`,
+    `  Status:  ${getDomainStatus(domain)}`,
+  ];
+  if (domain.manager) lines.push(`  Manager: ${domain.manager.toBase58()}`);
+  if (domain.data) lines.push(`  Data:    ${domain.data}`);
+  for (const [key, value] of Object.entries(records)) {
+    lines.push(`  ${(key + ":").padEnd(8)} ${value}`);
+  }
+  return lines.join("\n");
+}
+
+// One line per name; fails if any name failed
+function printBatch(out: Output, verb: string, results: BatchResult[]) {
+  const lines = results.map((r) =>
+    r.error
+      ? `Failed ${r.name}.carv: ${r.error.message.split("\n")[0]}`
+      : `${verb} ${r.name}.carv\n  Transaction: ${r.signature}`
+  );
+  print(
+    out,
+    lines.join("\n"),
+    results.map((r) => ({
+      name: r.name,
+      signature: r.signature ?? null,
+      error: r.error ? getProgramErrorName(r.error) ?? r.error.message.split("\n")[0] : null,
+    }))
+  );
+  return results.some((r) => r.error) ? EXIT_CODES.error : EXIT_CODES.ok;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      keypair: { type: "string", short: "k", default: "~/.config/solana/id.json" },
+      cluster: { type: "string", short: "u", default: "carv-testnet" },
+      treasury: { type: "string" },
+      owner: { type: "string" },
+      years: { type: "string", default: "1" },
+      private: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+}
+
+export async function run(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    console.error(toError(error).message);
+    console.error(USAGE);
+    return EXIT_CODES.usage;
+  }
+  const { values, positionals } = parsed;
+  const out: Output = { json: values.json! };
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return command || values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  try {
+    // Read-only commands work without a keypair file
+    const keypair = loadKeypair(values.keypair!);
+    const endpoint = CLUSTERS[values.cluster!] ?? values.cluster!;
+    const connection = new anchor.web3.Connection(endpoint, "confirmed");
+    const wallet = new anchor.Wallet(keypair ?? anchor.web3.Keypair.generate());
+    const client = CarvDomainClient.fromWallet(connection, wallet, {
+      treasury: values.treasury ? parsePubkey(values.treasury, "treasury") : undefined,
+    });
+
+    const requireKeypair = () => {
+      if (!keypair) throw new UsageError(`${command} needs a keypair, ${values.keypair} not found`);
+    };
+
+    const years = () => {
+      const parsedYears = Number(values.years);
+      if (!Number.isInteger(parsedYears) || parsedYears < 1 || parsedYears > MAX_YEARS) {
+        throw new UsageError(new InvalidYearsError(parsedYears).message);
+      }
+      return parsedYears;
+    };
+
+    // Names are case-insensitive and may carry the .carv suffix
+    const name = normalizeName(args[0] ?? "");
+    const requireName = () => {
+      if (!name) throw new UsageError(`${command} needs a domain name`);
+      return name;
+    };
+
+    switch (command) {
+      case "search": {
+        const status = await client.getStatus(validateName(requireName()));
+        const price = await client.quotePrice(name, years());
+        const human = isRegistrable(status)
+          ? `${name}.carv ${STATUS_TEXT[status]} for ${formatSol(price)} SOL`
+          : `${name}.carv ${STATUS_TEXT[status]}`;
+        print(out, human, {
+          name,
+          status,
+          available: isRegistrable(status),
+          years: years(),
+          price,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "register": {
+        requireKeypair();
+        if (args.length > 1) return printBatch(out, "Registered", await client.registerMany(args, { years: years() }));
+        // Lapsed names already have an account, so they are reclaimed instead
+        const reclaim = (await client.getStatus(requireName())) === "expired";
+        const term = { years: years() };
+        if (values.private && reclaim) throw new UsageError("--private cannot reclaim a lapsed name");
+        if (values.private && !out.json) console.log("Committing to the name; it is revealed and registered in about a minute...");
+        const signature = reclaim
+          ? await client.reclaim(name, term)
+          : values.private
+            ? await client.registerPrivately(name, term)
+            : await client.register(name, term);
+        print(out, `Registered ${name}.carv for ${term.years} year(s)\nTransaction: ${signature}`, {
+          name,
+          years: term.years,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "renew": {
+        requireKeypair();
+        if (args.length > 1) return printBatch(out, "Renewed", await client.renewMany(args, { years: years() }));
+        const term = { years: years() };
+        const signature = await client.renew(requireName(), term);
+        print(out, `Renewed ${name}.carv for ${term.years} year(s)\nTransaction: ${signature}`, {
+          name,
+          years: term.years,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "transfer": {
+        requireKeypair();
+        const newOwner = parsePubkey(args[1], "new owner");
+        const signature = await client.proposeTransfer(requireName(), newOwner);
+        print(
+          out,
+          `Offered ${name}.carv to ${newOwner.toBase58()}\n` +
+            `They must run: carv accept-transfer ${name}\nTransaction: ${signature}`,
+          { name, newOwner: newOwner.toBase58(), signature }
+        );
+        return EXIT_CODES.ok;
+      }
+
+      case "accept-transfer": {
+        requireKeypair();
+        const signature = await client.acceptTransfer(requireName());
+        print(out, `${name}.carv is now yours\nTransaction: ${signature}`, { name, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "cancel-transfer": {
+        requireKeypair();
+        const signature = await client.cancelTransfer(requireName());
+        print(out, `Cancelled transfer of ${name}.carv\nTransaction: ${signature}`, { name, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "auto-renew": {
+        requireKeypair();
+        requireName();
+        const amount = parseSol(args[1], "amount");
+        const signature = await client.depositRenewal(name, amount);
+        const balance = await client.getRenewalBalance(name);
+        print(out, `${name}.carv has ${formatSol(balance)} SOL for renewals\nTransaction: ${signature}`, {
+          name,
+          balance,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "auto-renew-withdraw": {
+        requireKeypair();
+        requireName();
+        const balance = await client.getRenewalBalance(name);
+        const signature = await client.withdrawRenewal(name);
+        print(out, `Withdrew ${formatSol(balance)} SOL of renewals for ${name}.carv\nTransaction: ${signature}`, {
+          name,
+          balance,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "sell": {
+        requireKeypair();
+        requireName();
+        const price = parseSol(args[1], "price");
+        const signature = await client.listDomain(name, price);
+        print(out, `Listed ${name}.carv for ${formatSol(price)} SOL\nTransaction: ${signature}`, {
+          name,
+          price,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "delist": {
+        requireKeypair();
+        const signature = await client.delistDomain(requireName());
+        print(out, `Removed listing of ${name}.carv\nTransaction: ${signature}`, { name, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "buy": {
+        requireKeypair();
+        requireName();
+        // The price is repeated on the command line so a changed listing is rejected on-chain
+        const price = parseSol(args[1], "price");
+        const signature = await client.buyDomain(name, price);
+        print(out, `Bought ${name}.carv for ${formatSol(price)} SOL\nTransaction: ${signature}`, {
+          name,
+          price,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "wrap": {
+        requireKeypair();
+        const signature = await client.wrap(requireName());
+        const mint = (await client.fetchDomain(name))!.owner.toBase58();
+        print(out, `Wrapped ${name}.carv as token ${mint}\nTransaction: ${signature}`, { name, mint, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "unwrap": {
+        requireKeypair();
+        const signature = await client.unwrap(requireName());
+        print(out, `Unwrapped ${name}.carv\nTransaction: ${signature}`, { name, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "migrate": {
+        requireKeypair();
+        requireName();
+        const signature = await client.migrate(name);
+        print(out, `Migrated ${name}.carv to the current account format\nTransaction: ${signature}`, {
+          name,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "release": {
+        requireKeypair();
+        const info = await connection.getAccountInfo(client.domainAddress(requireName()));
+        if (!info) {
+          print(out, `${name}.carv is not registered`, { name, error: "NotFound" });
+          return EXIT_CODES.notFound;
+        }
+        const signature = await client.release(name);
+        print(out, `Released ${name}.carv, refunded ${formatSol(info.lamports)} SOL\nTransaction: ${signature}`, {
+          name,
+          refund: info.lamports,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "set-manager": {
+        requireKeypair();
+        requireName();
+        const manager = args[1] === "none" ? null : parsePubkey(args[1], "manager");
+        const signature = await client.setManager(name, manager);
+        const human = manager
+          ? `${manager.toBase58()} can now edit ${name}.carv`
+          : `Removed the manager of ${name}.carv`;
+        print(out, `${human}\nTransaction: ${signature}`, {
+          name,
+          manager: manager?.toBase58() ?? null,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "set-data": {
+        requireKeypair();
+        requireName();
+        if (args[1] === undefined) throw new UsageError("set-data needs a JSON value");
+        let data: string;
+        try {
+          data = JSON.stringify(JSON.parse(args[1]));
+        } catch {
+          throw new UsageError(`Data is not valid JSON: ${args[1]}`);
+        }
+        if (Buffer.byteLength(data) > MAX_DATA_LEN) {
+          throw new UsageError(`Data is ${Buffer.byteLength(data)} bytes, max ${MAX_DATA_LEN}`);
+        }
+        const signature = await client.setData(name, data);
+        print(out, `Updated ${name}.carv\nTransaction: ${signature}`, { name, data, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "prove": {
+        requireKeypair();
+        requireName();
+        if (args[1] === undefined) throw new UsageError("prove needs a JSON object of handles");
+        let claims: Claims;
+        try {
+          claims = JSON.parse(args[1]);
+        } catch {
+          throw new UsageError(`Handles are not valid JSON: ${args[1]}`);
+        }
+        if (typeof claims !== "object" || claims === null || Array.isArray(claims)) {
+          throw new UsageError(`Handles must be a JSON object: ${args[1]}`);
+        }
+        const signature = await client.createProof(name, claims);
+        print(out, `Signed the handles of ${name}.carv\nTransaction: ${signature}`, { name, claims, signature });
+        return EXIT_CODES.ok;
+      }
+
+      case "verify": {
+        requireName();
+        const check = await client.verifyProof(name);
+        if (!check) {
+          print(out, `${name}.carv is not registered`, { name, error: "NotFound" });
+          return EXIT_CODES.notFound;
+        }
+        const human = [
+          check.status === "verified"
+            ? `${name}.carv: handles signed by the current owner`
+            : check.status === "none"
+            ? `${name}.carv: no proof; handles are unverified claims`
+            : `${name}.carv: proof does not verify (${check.reason})`,
+          ...Object.entries(check.claims).map(([key, value]) => `  ${(key + ":").padEnd(8)} ${value}`),
+        ];
+        print(out, human.join("\n"), { name, ...check });
+        return check.status === "verified" ? EXIT_CODES.ok : EXIT_CODES.unverified;
+      }
+
+      case "set-record": {
+        requireKeypair();
+        requireName();
+        if (!args[1] || args[2] === undefined) throw new UsageError("set-record needs a type and a value");
+        const kind = parseRecordKind(args[1]);
+        const signature = await client.setRecord(name, kind, args[2]);
+        print(out, `Set ${args[1]} record of ${name}.carv\nTransaction: ${signature}`, {
+          name,
+          record: args[1],
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "delete-record": {
+        requireKeypair();
+        requireName();
+        if (!args[1]) throw new UsageError("delete-record needs a type");
+        const signature = await client.deleteRecord(name, parseRecordKind(args[1]));
+        print(out, `Deleted ${args[1]} record of ${name}.carv\nTransaction: ${signature}`, {
+          name,
+          record: args[1],
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "list": {
+        if (!values.owner) requireKeypair();
+        const owner = values.owner ? parsePubkey(values.owner, "owner") : wallet.publicKey;
+        const domains = await client.listDomains({ owner });
+        const human = domains.length
+          ? domains.map((d) => describeDomain(d.account)).join("\n\n")
+          : `No domains owned by ${owner.toBase58()}`;
+        print(out, human, domains.map((d) => domainToJson(d.account.name, d.account)));
+        return EXIT_CODES.ok;
+      }
+
+      case "whois": {
+        if (splitName(requireName()).label) {
+          const resolved = await client.resolveName(name);
+          if (!resolved) {
+            print(out, `${name} does not exist`, { name, error: "NotFound" });
+            return EXIT_CODES.notFound;
+          }
+          const human = [
+            `${resolved.name}.carv${resolved.valid ? "" : " (inactive: parent expired)"}`,
+            `  Owner:   ${resolved.owner.toBase58()}`,
+            `  Expires: ${new Date(resolved.expires.toNumber() * 1000).toISOString()}`,
+          ];
+          if (resolved.data) human.push(`  Data:    ${resolved.data}`);
+          print(out, human.join("\n"), {
+            name: resolved.name,
+            owner: resolved.owner.toBase58(),
+            parent: resolved.parent?.toBase58(),
+            expires: resolved.expires.toNumber(),
+            valid: resolved.valid,
+            data: resolved.data,
+          });
+          return EXIT_CODES.ok;
+        }
+
+        const domain = await client.fetchDomain(name);
+        if (!domain) {
+          print(out, `${name}.carv is not registered`, { name, error: "NotFound" });
+          return EXIT_CODES.notFound;
+        }
+        const [records, listing, owner] = await Promise.all([
+          client.getRecords(name),
+          client.getListing(name),
+          client.getOwner(name),
+        ]);
+        const forSale = listing?.seller.equals(domain.owner) ? listing.price.toNumber() : null;
+        // While wrapped the token holder is shown as the owner
+        const mint = client.isWrapped(name, domain) ? domain.owner.toBase58() : null;
+        const shown = { ...domain, owner: owner ?? domain.owner };
+        const human =
+          describeDomain(shown, records) +
+          (mint ? `\n  Wrapped: ${mint}` : "") +
+          (forSale ? `\n  For sale: ${formatSol(forSale)} SOL` : "");
+        print(out, human, { ...domainToJson(name, shown), records, price: forSale, mint });
+        return EXIT_CODES.ok;
+      }
+
+      case "create-subdomain": {
+        requireKeypair();
+        requireName();
+        if (!args[1]) throw new UsageError("create-subdomain needs a label");
+        const owner = values.owner ? parsePubkey(values.owner, "owner") : undefined;
+        const signature = await client.createSubdomain(name, args[1], owner);
+        print(out, `Created ${args[1]}.${name}.carv\nTransaction: ${signature}`, {
+          name: `${args[1]}.${name}`,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "set-primary": {
+        requireKeypair();
+        const signature = await client.setPrimaryName(requireName());
+        print(out, `${name}.carv is now the primary name of ${wallet.publicKey.toBase58()}\nTransaction: ${signature}`, {
+          name,
+          signature,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      case "reverse": {
+        const owner = parsePubkey(args[0], "wallet");
+        const primary = await client.resolvePrimaryName(owner);
+        if (!primary) {
+          print(out, `${owner.toBase58()} has no primary name`, { owner: owner.toBase58(), name: null });
+          return EXIT_CODES.notFound;
+        }
+        print(out, `${primary}.carv`, { owner: owner.toBase58(), name: primary });
+        return EXIT_CODES.ok;
+      }
+
+      case "config": {
+        const config = await client.getConfig();
+        if (!config) {
+          print(out, "Program config is not initialized", { error: "NotFound" });
+          return EXIT_CODES.notFound;
+        }
+        const prices = {
+          price3Chars: config.price3Chars.toNumber(),
+          price4Chars: config.price4Chars.toNumber(),
+          priceDefault: config.priceDefault.toNumber(),
+        };
+        const human = [
+          `Authority: ${config.authority.toBase58()}`,
+          `Treasury:  ${config.treasury.toBase58()}`,
+          `Prices:    ${formatSol(prices.price3Chars)} / ${formatSol(prices.price4Chars)} / ${formatSol(prices.priceDefault)} SOL per year (3 / 4 / 5+ chars)`,
+          `Paused:    ${config.paused}`,
+        ];
+        print(out, human.join("\n"), {
+          authority: config.authority.toBase58(),
+          treasury: config.treasury.toBase58(),
+          ...prices,
+          paused: config.paused,
+        });
+        return EXIT_CODES.ok;
+      }
+
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      console.error(USAGE);
+      return EXIT_CODES.usage;
+    }
+    if (error instanceof InvalidProofError) {
+      print(out, `Error: ${error.message}`, { error: "InvalidProof", message: error.message });
+      return EXIT_CODES.usage;
+    }
+    // Names are checked before anything is sent; exit as the program would have rejected them
+    if (error instanceof InvalidNameError) {
+      print(out, `Error: ${error.message}`, { error: error.code, message: error.message });
+      return PROGRAM_ERROR_EXIT_CODES[error.code]!;
+    }
+
+    const code = error instanceof InvalidRecordError ? "InvalidRecord" : getProgramErrorName(error);
+    const message = toError(error).message.split("\n")[0] || String(error);
+    if (out.json) {
+      console.log(JSON.stringify({ error: code ?? "Error", message }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    return (code && PROGRAM_ERROR_EXIT_CODES[code]) || EXIT_CODES.error;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -1,16 +1,7 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
-
-// Get IDL type from workspace
-type CarvDomain = any;
-
-// Helper to get domain PDA
-function getDomainPDA(name: string, programId: anchor.web3.PublicKey) {
-  return anchor.web3.PublicKey.findProgramAddressSync(
-    [Buffer.from("domain"), Buffer.from(name)],
-    programId
-  );
-}
+import { CarvDomain } from "../target/types/carv_domain";
+import { CarvDomainClient } from "./carvDomainClient";
 
 // Main function
 const main = async () => {
@@ -24,7 +15,9 @@ const main = async () => {
 
     const program = anchor.workspace.CarvDomain as Program<CarvDomain>;
     const owner = provider.wallet.publicKey;
-    const treasury = anchor.web3.Keypair.generate().publicKey;
+    // Fees go to the treasury stored in the program config
+    const client = new CarvDomainClient(provider, { program });
+    const treasury = await client.getTreasury();
 
     console.log("\n👤 Connected as:", owner.toBase58());
     console.log("📍 Program ID:", program.programId.toBase58());
@@ -37,20 +30,12 @@ const main = async () => {
     console.log("\n[DEMO 1] Registering new domain...");
     
     const domainName = "mysite" + Math.floor(Math.random() * 100000);
-    const [domainPDA] = getDomainPDA(domainName, program.programId);
+    const domainPDA = client.domainAddress(domainName);
 
     console.log("   Domain name:", domainName);
     console.log("   Domain PDA:", domainPDA.toBase58());
 
-    const registerTx = await program.methods
-      .register(domainName)
-      .accounts({
-        domain: domainPDA,
-        owner: owner,
-        treasury: treasury,
-        systemProgram: anchor.web3.SystemProgram.programId,
-      })
-      .rpc();
+    const registerTx = await client.register(domainName);
 
     console.log("   ✅ Registration successful!");
     console.log("   Transaction:", registerTx);
@@ -64,13 +49,7 @@ const main = async () => {
       const newData = "https://myawesome.site";
       console.log("   New data:", newData);
 
-      const setDataTx = await program.methods
-        .setData(newData)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-        })
-        .rpc();
+      const setDataTx = await client.setData(domainName, newData);
 
       console.log("   ✅ Data updated!");
       console.log("   Transaction:", setDataTx);
@@ -87,15 +66,7 @@ const main = async () => {
     try {
       console.log("   Domain to renew:", domainName);
 
-      const renewTx = await program.methods
-        .renew()
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
+      const renewTx = await client.renew(domainName);
 
       console.log("   ✅ Domain renewed successfully!");
       console.log("   Transaction:", renewTx);
@@ -115,13 +86,7 @@ const main = async () => {
       console.log("   Current owner:", owner.toBase58().slice(0, 12) + "...");
       console.log("   New owner:", newOwner.publicKey.toBase58().slice(0, 12) + "...");
 
-      const transferTx = await program.methods
-        .transfer(newOwner.publicKey)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-        })
-        .rpc();
+      const transferTx = await client.transfer(domainName, newOwner.publicKey);
 
       console.log("   ✅ Domain transferred successfully!");
       console.log("   Transaction:", transferTx);
@@ -136,7 +101,7 @@ const main = async () => {
     console.log("\n[DEMO 5] Fetching all registered domains...");
     
     try {
-      const allDomains = await program.account.domain.all();
+      const allDomains = await client.listDomains();
       console.log("   Total domains:", allDomains.length);
 
       if (allDomains.length > 0) {
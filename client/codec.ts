@@ -0,0 +1,820 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import type { CarvDomain } from "../target/types/carv_domain";
+import idl from "../target/idl/carv_domain.json";
+import { RecordKind } from "./records";
+
+// Borsh codec for the carv_domain accounts, instructions and events.
+// Kept free of Anchor and Buffer so it can be bundled for the web page.
+
+export class CodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Input ended before the field at `offset` could be read
+export class TruncatedDataError extends CodecError {
+  constructor(readonly offset: number, readonly needed: number, readonly available: number) {
+    super(`Truncated data: need ${needed} bytes at offset ${offset}, have ${available}`);
+  }
+}
+
+// First 8 bytes do not match the expected account or instruction
+export class DiscriminatorMismatchError extends CodecError {
+  constructor(readonly expected: string, readonly actual: number[]) {
+    super(`Discriminator mismatch: expected ${expected}, got [${actual.join(", ")}]`);
+  }
+}
+
+// Bytes are present but do not form a valid value
+export class MalformedDataError extends CodecError {}
+
+function discriminatorOf(kind: "account" | "instruction" | "event", name: string): Uint8Array {
+  const entries: readonly { name: string; discriminator: readonly number[] }[] =
+    (idl as CarvDomain)[`${kind}s` as const];
+  const entry = entries.find((e) => e.name === name);
+  if (!entry) throw new CodecError(`IDL has no ${kind} named ${name}`);
+  return Uint8Array.from(entry.discriminator);
+}
+
+export const DOMAIN_DISCRIMINATOR = discriminatorOf("account", "Domain");
+export const REVERSE_RECORD_DISCRIMINATOR = discriminatorOf("account", "ReverseRecord");
+export const DOMAIN_RECORD_DISCRIMINATOR = discriminatorOf("account", "DomainRecord");
+export const SUBDOMAIN_DISCRIMINATOR = discriminatorOf("account", "Subdomain");
+export const CONFIG_DISCRIMINATOR = discriminatorOf("account", "Config");
+export const PENDING_TRANSFER_DISCRIMINATOR = discriminatorOf("account", "PendingTransfer");
+export const LISTING_DISCRIMINATOR = discriminatorOf("account", "Listing");
+export const COMMITMENT_DISCRIMINATOR = discriminatorOf("account", "Commitment");
+export const RENEWAL_VAULT_DISCRIMINATOR = discriminatorOf("account", "RenewalVault");
+
+export const INSTRUCTION_DISCRIMINATORS = {
+  initializeConfig: discriminatorOf("instruction", "initialize_config"),
+  setAuthority: discriminatorOf("instruction", "set_authority"),
+  setTreasury: discriminatorOf("instruction", "set_treasury"),
+  setPrices: discriminatorOf("instruction", "set_prices"),
+  setPaused: discriminatorOf("instruction", "set_paused"),
+  register: discriminatorOf("instruction", "register"),
+  commit: discriminatorOf("instruction", "commit"),
+  registerWithReveal: discriminatorOf("instruction", "register_with_reveal"),
+  closeCommitment: discriminatorOf("instruction", "close_commitment"),
+  renew: discriminatorOf("instruction", "renew"),
+  depositRenewal: discriminatorOf("instruction", "deposit_renewal"),
+  withdrawRenewal: discriminatorOf("instruction", "withdraw_renewal"),
+  crankRenew: discriminatorOf("instruction", "crank_renew"),
+  transfer: discriminatorOf("instruction", "transfer"),
+  setManager: discriminatorOf("instruction", "set_manager"),
+  setData: discriminatorOf("instruction", "set_data"),
+  setPrimary: discriminatorOf("instruction", "set_primary"),
+  clearPrimary: discriminatorOf("instruction", "clear_primary"),
+  setRecord: discriminatorOf("instruction", "set_record"),
+  deleteRecord: discriminatorOf("instruction", "delete_record"),
+  createSubdomain: discriminatorOf("instruction", "create_subdomain"),
+  setSubdomainData: discriminatorOf("instruction", "set_subdomain_data"),
+  transferSubdomain: discriminatorOf("instruction", "transfer_subdomain"),
+  deleteSubdomain: discriminatorOf("instruction", "delete_subdomain"),
+  reclaim: discriminatorOf("instruction", "reclaim"),
+  expire: discriminatorOf("instruction", "expire"),
+  release: discriminatorOf("instruction", "release"),
+  migrate: discriminatorOf("instruction", "migrate"),
+  proposeTransfer: discriminatorOf("instruction", "propose_transfer"),
+  acceptTransfer: discriminatorOf("instruction", "accept_transfer"),
+  cancelTransfer: discriminatorOf("instruction", "cancel_transfer"),
+  listDomain: discriminatorOf("instruction", "list_domain"),
+  delistDomain: discriminatorOf("instruction", "delist_domain"),
+  buyDomain: discriminatorOf("instruction", "buy_domain"),
+  wrap: discriminatorOf("instruction", "wrap"),
+  unwrap: discriminatorOf("instruction", "unwrap"),
+};
+
+export type InstructionName = keyof typeof INSTRUCTION_DISCRIMINATORS;
+
+export const EVENT_DISCRIMINATORS = {
+  configUpdated: discriminatorOf("event", "ConfigUpdated"),
+  domainRegistered: discriminatorOf("event", "DomainRegistered"),
+  domainRenewed: discriminatorOf("event", "DomainRenewed"),
+  renewalVaultUpdated: discriminatorOf("event", "RenewalVaultUpdated"),
+  domainExpired: discriminatorOf("event", "DomainExpired"),
+  domainReleased: discriminatorOf("event", "DomainReleased"),
+  domainMigrated: discriminatorOf("event", "DomainMigrated"),
+  domainTransferred: discriminatorOf("event", "DomainTransferred"),
+  transferProposed: discriminatorOf("event", "TransferProposed"),
+  transferCancelled: discriminatorOf("event", "TransferCancelled"),
+  domainListed: discriminatorOf("event", "DomainListed"),
+  domainDelisted: discriminatorOf("event", "DomainDelisted"),
+  domainWrapped: discriminatorOf("event", "DomainWrapped"),
+  domainUnwrapped: discriminatorOf("event", "DomainUnwrapped"),
+  dataUpdated: discriminatorOf("event", "DataUpdated"),
+  managerUpdated: discriminatorOf("event", "ManagerUpdated"),
+  primaryUpdated: discriminatorOf("event", "PrimaryUpdated"),
+  recordUpdated: discriminatorOf("event", "RecordUpdated"),
+  subdomainUpdated: discriminatorOf("event", "SubdomainUpdated"),
+};
+
+export type EventName = keyof typeof EVENT_DISCRIMINATORS;
+
+// Max string lengths as allocated by the program
+export const MAX_NAME_LEN = 32;
+export const MAX_DATA_LEN = 128;
+
+// Mirrors DOMAIN_VERSION and the DOMAIN_SPACE constants in program/src/lib.rs. Layouts
+// before version 2 have no version byte, so accounts are told apart by their size.
+export const DOMAIN_VERSION = 2;
+export const DOMAIN_ACCOUNT_SIZES = [225, 258, 259];
+
+export interface Domain {
+  owner: PublicKey;
+  name: string;
+  registered: BN;
+  expires: BN;
+  active: boolean;
+  data: string;
+  // May edit data and records but not transfer or sell; null when unset
+  manager: PublicKey | null;
+  // Layout the account is stored in; below DOMAIN_VERSION until migrated
+  version: number;
+}
+
+export interface ReverseRecord {
+  domain: PublicKey;
+  name: string;
+}
+
+export interface DomainRecord {
+  domain: PublicKey;
+  kind: RecordKind;
+  value: string;
+  // `registered` of the domain when the record was written
+  domainRegistered: BN;
+}
+
+export interface Subdomain {
+  parent: PublicKey;
+  owner: PublicKey;
+  label: string;
+  created: BN;
+  // `registered` of the parent when the subdomain was created
+  parentRegistered: BN;
+  data: string;
+}
+
+export interface Config {
+  authority: PublicKey;
+  treasury: PublicKey;
+  // Lamports per year
+  price3Chars: BN;
+  price4Chars: BN;
+  priceDefault: BN;
+  paused: boolean;
+}
+
+export interface PendingTransfer {
+  domain: PublicKey;
+  from: PublicKey;
+  to: PublicKey;
+  created: BN;
+}
+
+export interface Listing {
+  domain: PublicKey;
+  seller: PublicKey;
+  // Lamports
+  price: BN;
+  created: BN;
+}
+
+export interface Commitment {
+  owner: PublicKey;
+  created: BN;
+}
+
+// Its balance is the account's lamports above rent, not a field
+export interface RenewalVault {
+  domain: PublicKey;
+  owner: PublicKey;
+}
+
+export type DecodedInstruction =
+  | { name: "initializeConfig"; args: { treasury: PublicKey } }
+  | { name: "setAuthority"; args: { newAuthority: PublicKey } }
+  | { name: "setTreasury"; args: { treasury: PublicKey } }
+  | { name: "setPrices"; args: { price3Chars: BN; price4Chars: BN; priceDefault: BN } }
+  | { name: "setPaused"; args: { paused: boolean } }
+  | { name: "register"; args: { name: string; years: number } }
+  | { name: "commit"; args: { hash: Uint8Array } }
+  | { name: "registerWithReveal"; args: { name: string; years: number; salt: Uint8Array } }
+  | { name: "closeCommitment"; args: Record<string, never> }
+  | { name: "renew"; args: { years: number } }
+  | { name: "depositRenewal"; args: { amount: BN } }
+  | { name: "withdrawRenewal"; args: Record<string, never> }
+  | { name: "crankRenew"; args: Record<string, never> }
+  | { name: "transfer"; args: { newOwner: PublicKey } }
+  | { name: "setManager"; args: { manager: PublicKey | null } }
+  | { name: "setData"; args: { data: string } }
+  | { name: "setPrimary"; args: Record<string, never> }
+  | { name: "clearPrimary"; args: Record<string, never> }
+  | { name: "setRecord"; args: { kind: RecordKind; value: string } }
+  | { name: "deleteRecord"; args: { kind: RecordKind } }
+  | { name: "createSubdomain"; args: { label: string; owner: PublicKey } }
+  | { name: "setSubdomainData"; args: { data: string } }
+  | { name: "transferSubdomain"; args: { newOwner: PublicKey } }
+  | { name: "deleteSubdomain"; args: Record<string, never> }
+  | { name: "reclaim"; args: { years: number } }
+  | { name: "expire"; args: Record<string, never> }
+  | { name: "release"; args: Record<string, never> }
+  | { name: "migrate"; args: Record<string, never> }
+  | { name: "proposeTransfer"; args: { newOwner: PublicKey } }
+  | { name: "acceptTransfer"; args: Record<string, never> }
+  | { name: "cancelTransfer"; args: Record<string, never> }
+  | { name: "listDomain"; args: { price: BN } }
+  | { name: "delistDomain"; args: Record<string, never> }
+  | { name: "buyDomain"; args: { price: BN } }
+  | { name: "wrap"; args: Record<string, never> }
+  | { name: "unwrap"; args: Record<string, never> };
+
+export class BorshReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get remaining() {
+    return this.bytes.length - this.offset;
+  }
+
+  private take(len: number) {
+    if (len > this.remaining) throw new TruncatedDataError(this.offset, len, this.remaining);
+    const start = this.offset;
+    this.offset += len;
+    return start;
+  }
+
+  bytesFixed(len: number) {
+    const start = this.take(len);
+    return this.bytes.slice(start, start + len);
+  }
+
+  u8() {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u32() {
+    return this.view.getUint32(this.take(4), true);
+  }
+
+  i64() {
+    return new BN(this.bytesFixed(8), "le").fromTwos(64);
+  }
+
+  u64() {
+    return new BN(this.bytesFixed(8), "le");
+  }
+
+  bool() {
+    const at = this.offset;
+    const value = this.u8();
+    if (value > 1) throw new MalformedDataError(`Invalid bool ${value} at offset ${at}`);
+    return value === 1;
+  }
+
+  string() {
+    const at = this.offset;
+    const len = this.u32();
+    const bytes = this.bytesFixed(len);
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      throw new MalformedDataError(`Invalid UTF-8 string at offset ${at}`);
+    }
+  }
+
+  publicKey() {
+    return new PublicKey(this.bytesFixed(32));
+  }
+
+  // Borsh Option<T>: a 0/1 tag, then the value when present
+  option<T>(read: () => T): T | null {
+    return this.bool() ? read() : null;
+  }
+
+  recordKind(): RecordKind {
+    const at = this.offset;
+    const value = this.u8();
+    if (RecordKind[value] === undefined) {
+      throw new MalformedDataError(`Invalid record kind ${value} at offset ${at}`);
+    }
+    return value;
+  }
+
+  discriminator(expected: Uint8Array, label: string) {
+    const actual = this.bytesFixed(8);
+    if (!actual.every((b, i) => b === expected[i])) {
+      throw new DiscriminatorMismatchError(label, Array.from(actual));
+    }
+  }
+}
+
+export class BorshWriter {
+  private chunks: Uint8Array[] = [];
+
+  bytes(bytes: Uint8Array) {
+    this.chunks.push(Uint8Array.from(bytes));
+    return this;
+  }
+
+  u8(value: number) {
+    return this.bytes(Uint8Array.of(value));
+  }
+
+  u32(value: number) {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, value, true);
+    return this.bytes(out);
+  }
+
+  i64(value: BN | number) {
+    return this.bytes(Uint8Array.from(new BN(value).toTwos(64).toArray("le", 8)));
+  }
+
+  u64(value: BN | number) {
+    return this.bytes(Uint8Array.from(new BN(value).toArray("le", 8)));
+  }
+
+  bool(value: boolean) {
+    return this.u8(value ? 1 : 0);
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    return this.u32(encoded.length).bytes(encoded);
+  }
+
+  publicKey(value: PublicKey) {
+    return this.bytes(value.toBytes());
+  }
+
+  option<T>(value: T | null, write: (writer: BorshWriter, value: T) => unknown) {
+    this.bool(value !== null);
+    if (value !== null) write(this, value);
+    return this;
+  }
+
+  toBytes() {
+    const out = new Uint8Array(this.chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+export function decodeDomain(data: Uint8Array): Domain {
+  const r = new BorshReader(data);
+  r.discriminator(DOMAIN_DISCRIMINATOR, "Domain");
+  const domain = {
+    owner: r.publicKey(),
+    name: r.string(),
+    registered: r.i64(),
+    expires: r.i64(),
+    active: r.bool(),
+    data: r.string(),
+  };
+  // Every version reads the same up to `data`; see read_domain in program/src/lib.rs
+  switch (data.length) {
+    case DOMAIN_ACCOUNT_SIZES[0]:
+      return { ...domain, manager: null, version: 0 };
+    case DOMAIN_ACCOUNT_SIZES[1]:
+      return { ...domain, manager: r.option(() => r.publicKey()), version: 1 };
+    default:
+      return { ...domain, manager: r.option(() => r.publicKey()), version: r.u8() };
+  }
+}
+
+// Always in the current layout, whatever `domain.version` it was read from
+export function encodeDomain(domain: Domain): Uint8Array {
+  return new BorshWriter()
+    .bytes(DOMAIN_DISCRIMINATOR)
+    .publicKey(domain.owner)
+    .string(domain.name)
+    .i64(domain.registered)
+    .i64(domain.expires)
+    .bool(domain.active)
+    .string(domain.data)
+    .option(domain.manager, (w, manager) => w.publicKey(manager))
+    .u8(DOMAIN_VERSION)
+    .toBytes();
+}
+
+export function decodeReverseRecord(data: Uint8Array): ReverseRecord {
+  const r = new BorshReader(data);
+  r.discriminator(REVERSE_RECORD_DISCRIMINATOR, "ReverseRecord");
+  return {
+    domain: r.publicKey(),
+    name: r.string(),
+  };
+}
+
+export function encodeReverseRecord(record: ReverseRecord): Uint8Array {
+  return new BorshWriter()
+    .bytes(REVERSE_RECORD_DISCRIMINATOR)
+    .publicKey(record.domain)
+    .string(record.name)
+    .toBytes();
+}
+
+export function decodeDomainRecord(data: Uint8Array): DomainRecord {
+  const r = new BorshReader(data);
+  r.discriminator(DOMAIN_RECORD_DISCRIMINATOR, "DomainRecord");
+  return {
+    domain: r.publicKey(),
+    kind: r.recordKind(),
+    value: r.string(),
+    domainRegistered: r.i64(),
+  };
+}
+
+export function encodeDomainRecord(record: DomainRecord): Uint8Array {
+  return new BorshWriter()
+    .bytes(DOMAIN_RECORD_DISCRIMINATOR)
+    .publicKey(record.domain)
+    .u8(record.kind)
+    .string(record.value)
+    .i64(record.domainRegistered)
+    .toBytes();
+}
+
+export function decodeSubdomain(data: Uint8Array): Subdomain {
+  const r = new BorshReader(data);
+  r.discriminator(SUBDOMAIN_DISCRIMINATOR, "Subdomain");
+  return {
+    parent: r.publicKey(),
+    owner: r.publicKey(),
+    label: r.string(),
+    created: r.i64(),
+    parentRegistered: r.i64(),
+    data: r.string(),
+  };
+}
+
+export function encodeSubdomain(subdomain: Subdomain): Uint8Array {
+  return new BorshWriter()
+    .bytes(SUBDOMAIN_DISCRIMINATOR)
+    .publicKey(subdomain.parent)
+    .publicKey(subdomain.owner)
+    .string(subdomain.label)
+    .i64(subdomain.created)
+    .i64(subdomain.parentRegistered)
+    .string(subdomain.data)
+    .toBytes();
+}
+
+export function decodeConfig(data: Uint8Array): Config {
+  const r = new BorshReader(data);
+  r.discriminator(CONFIG_DISCRIMINATOR, "Config");
+  return {
+    authority: r.publicKey(),
+    treasury: r.publicKey(),
+    price3Chars: r.u64(),
+    price4Chars: r.u64(),
+    priceDefault: r.u64(),
+    paused: r.bool(),
+  };
+}
+
+export function encodeConfig(config: Config): Uint8Array {
+  return new BorshWriter()
+    .bytes(CONFIG_DISCRIMINATOR)
+    .publicKey(config.authority)
+    .publicKey(config.treasury)
+    .u64(config.price3Chars)
+    .u64(config.price4Chars)
+    .u64(config.priceDefault)
+    .bool(config.paused)
+    .toBytes();
+}
+
+export function decodePendingTransfer(data: Uint8Array): PendingTransfer {
+  const r = new BorshReader(data);
+  r.discriminator(PENDING_TRANSFER_DISCRIMINATOR, "PendingTransfer");
+  return {
+    domain: r.publicKey(),
+    from: r.publicKey(),
+    to: r.publicKey(),
+    created: r.i64(),
+  };
+}
+
+export function encodePendingTransfer(pending: PendingTransfer): Uint8Array {
+  return new BorshWriter()
+    .bytes(PENDING_TRANSFER_DISCRIMINATOR)
+    .publicKey(pending.domain)
+    .publicKey(pending.from)
+    .publicKey(pending.to)
+    .i64(pending.created)
+    .toBytes();
+}
+
+export function decodeListing(data: Uint8Array): Listing {
+  const r = new BorshReader(data);
+  r.discriminator(LISTING_DISCRIMINATOR, "Listing");
+  return {
+    domain: r.publicKey(),
+    seller: r.publicKey(),
+    price: r.u64(),
+    created: r.i64(),
+  };
+}
+
+export function encodeListing(listing: Listing): Uint8Array {
+  return new BorshWriter()
+    .bytes(LISTING_DISCRIMINATOR)
+    .publicKey(listing.domain)
+    .publicKey(listing.seller)
+    .u64(listing.price)
+    .i64(listing.created)
+    .toBytes();
+}
+
+export function decodeCommitment(data: Uint8Array): Commitment {
+  const r = new BorshReader(data);
+  r.discriminator(COMMITMENT_DISCRIMINATOR, "Commitment");
+  return {
+    owner: r.publicKey(),
+    created: r.i64(),
+  };
+}
+
+export function encodeCommitment(commitment: Commitment): Uint8Array {
+  return new BorshWriter()
+    .bytes(COMMITMENT_DISCRIMINATOR)
+    .publicKey(commitment.owner)
+    .i64(commitment.created)
+    .toBytes();
+}
+
+export function decodeRenewalVault(data: Uint8Array): RenewalVault {
+  const r = new BorshReader(data);
+  r.discriminator(RENEWAL_VAULT_DISCRIMINATOR, "RenewalVault");
+  return {
+    domain: r.publicKey(),
+    owner: r.publicKey(),
+  };
+}
+
+export function encodeRenewalVault(vault: RenewalVault): Uint8Array {
+  return new BorshWriter()
+    .bytes(RENEWAL_VAULT_DISCRIMINATOR)
+    .publicKey(vault.domain)
+    .publicKey(vault.owner)
+    .toBytes();
+}
+
+export function encodeInitializeConfig(treasury: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.initializeConfig).publicKey(treasury).toBytes();
+}
+
+export function encodeSetAuthority(newAuthority: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setAuthority).publicKey(newAuthority).toBytes();
+}
+
+export function encodeSetTreasury(treasury: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setTreasury).publicKey(treasury).toBytes();
+}
+
+export function encodeSetPrices(price3Chars: BN | number, price4Chars: BN | number, priceDefault: BN | number) {
+  return new BorshWriter()
+    .bytes(INSTRUCTION_DISCRIMINATORS.setPrices)
+    .u64(price3Chars)
+    .u64(price4Chars)
+    .u64(priceDefault)
+    .toBytes();
+}
+
+export function encodeSetPaused(paused: boolean) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setPaused).bool(paused).toBytes();
+}
+
+export function encodeRegister(name: string, years = 1) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.register).string(name).u8(years).toBytes();
+}
+
+export function encodeCommit(hash: Uint8Array) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.commit).bytes(hash).toBytes();
+}
+
+export function encodeRegisterWithReveal(name: string, years: number, salt: Uint8Array) {
+  return new BorshWriter()
+    .bytes(INSTRUCTION_DISCRIMINATORS.registerWithReveal)
+    .string(name)
+    .u8(years)
+    .bytes(salt)
+    .toBytes();
+}
+
+export function encodeCloseCommitment() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.closeCommitment).toBytes();
+}
+
+export function encodeRenew(years = 1) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.renew).u8(years).toBytes();
+}
+
+export function encodeTransfer(newOwner: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.transfer).publicKey(newOwner).toBytes();
+}
+
+export function encodeSetManager(manager: PublicKey | null) {
+  return new BorshWriter()
+    .bytes(INSTRUCTION_DISCRIMINATORS.setManager)
+    .option(manager, (w, m) => w.publicKey(m))
+    .toBytes();
+}
+
+export function encodeSetData(data: string) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setData).string(data).toBytes();
+}
+
+export function encodeSetPrimary() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setPrimary).toBytes();
+}
+
+export function encodeClearPrimary() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.clearPrimary).toBytes();
+}
+
+export function encodeSetRecord(kind: RecordKind, value: string) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setRecord).u8(kind).string(value).toBytes();
+}
+
+export function encodeDeleteRecord(kind: RecordKind) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.deleteRecord).u8(kind).toBytes();
+}
+
+export function encodeCreateSubdomain(label: string, owner: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.createSubdomain).string(label).publicKey(owner).toBytes();
+}
+
+export function encodeSetSubdomainData(data: string) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.setSubdomainData).string(data).toBytes();
+}
+
+export function encodeTransferSubdomain(newOwner: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.transferSubdomain).publicKey(newOwner).toBytes();
+}
+
+export function encodeDeleteSubdomain() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.deleteSubdomain).toBytes();
+}
+
+export function encodeDepositRenewal(amount: BN | number) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.depositRenewal).u64(amount).toBytes();
+}
+
+export function encodeWithdrawRenewal() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.withdrawRenewal).toBytes();
+}
+
+export function encodeCrankRenew() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.crankRenew).toBytes();
+}
+
+export function encodeReclaim(years = 1) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.reclaim).u8(years).toBytes();
+}
+
+export function encodeExpire() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.expire).toBytes();
+}
+
+export function encodeRelease() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.release).toBytes();
+}
+
+export function encodeMigrate() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.migrate).toBytes();
+}
+
+export function encodeProposeTransfer(newOwner: PublicKey) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.proposeTransfer).publicKey(newOwner).toBytes();
+}
+
+export function encodeAcceptTransfer() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.acceptTransfer).toBytes();
+}
+
+export function encodeCancelTransfer() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.cancelTransfer).toBytes();
+}
+
+export function encodeListDomain(price: BN | number) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.listDomain).u64(price).toBytes();
+}
+
+export function encodeDelistDomain() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.delistDomain).toBytes();
+}
+
+export function encodeBuyDomain(price: BN | number) {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.buyDomain).u64(price).toBytes();
+}
+
+export function encodeWrap() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.wrap).toBytes();
+}
+
+export function encodeUnwrap() {
+  return new BorshWriter().bytes(INSTRUCTION_DISCRIMINATORS.unwrap).toBytes();
+}
+
+export function decodeInstruction(data: Uint8Array): DecodedInstruction {
+  const r = new BorshReader(data);
+  const disc = r.bytesFixed(8);
+  const is = (expected: Uint8Array) => disc.every((b, i) => b === expected[i]);
+
+  let decoded: DecodedInstruction;
+  if (is(INSTRUCTION_DISCRIMINATORS.initializeConfig)) {
+    decoded = { name: "initializeConfig", args: { treasury: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setAuthority)) {
+    decoded = { name: "setAuthority", args: { newAuthority: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setTreasury)) {
+    decoded = { name: "setTreasury", args: { treasury: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setPrices)) {
+    decoded = { name: "setPrices", args: { price3Chars: r.u64(), price4Chars: r.u64(), priceDefault: r.u64() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setPaused)) {
+    decoded = { name: "setPaused", args: { paused: r.bool() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.register)) {
+    decoded = { name: "register", args: { name: r.string(), years: r.u8() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.commit)) {
+    decoded = { name: "commit", args: { hash: r.bytesFixed(32) } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.registerWithReveal)) {
+    decoded = { name: "registerWithReveal", args: { name: r.string(), years: r.u8(), salt: r.bytesFixed(32) } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.closeCommitment)) {
+    decoded = { name: "closeCommitment", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.renew)) {
+    decoded = { name: "renew", args: { years: r.u8() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.depositRenewal)) {
+    decoded = { name: "depositRenewal", args: { amount: r.u64() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.withdrawRenewal)) {
+    decoded = { name: "withdrawRenewal", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.crankRenew)) {
+    decoded = { name: "crankRenew", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.transfer)) {
+    decoded = { name: "transfer", args: { newOwner: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setManager)) {
+    decoded = { name: "setManager", args: { manager: r.option(() => r.publicKey()) } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setData)) {
+    decoded = { name: "setData", args: { data: r.string() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setPrimary)) {
+    decoded = { name: "setPrimary", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.clearPrimary)) {
+    decoded = { name: "clearPrimary", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setRecord)) {
+    decoded = { name: "setRecord", args: { kind: r.recordKind(), value: r.string() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.deleteRecord)) {
+    decoded = { name: "deleteRecord", args: { kind: r.recordKind() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.createSubdomain)) {
+    decoded = { name: "createSubdomain", args: { label: r.string(), owner: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.setSubdomainData)) {
+    decoded = { name: "setSubdomainData", args: { data: r.string() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.transferSubdomain)) {
+    decoded = { name: "transferSubdomain", args: { newOwner: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.deleteSubdomain)) {
+    decoded = { name: "deleteSubdomain", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.reclaim)) {
+    decoded = { name: "reclaim", args: { years: r.u8() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.expire)) {
+    decoded = { name: "expire", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.release)) {
+    decoded = { name: "release", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.migrate)) {
+    decoded = { name: "migrate", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.proposeTransfer)) {
+    decoded = { name: "proposeTransfer", args: { newOwner: r.publicKey() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.acceptTransfer)) {
+    decoded = { name: "acceptTransfer", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.cancelTransfer)) {
+    decoded = { name: "cancelTransfer", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.listDomain)) {
+    decoded = { name: "listDomain", args: { price: r.u64() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.delistDomain)) {
+    decoded = { name: "delistDomain", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.buyDomain)) {
+    decoded = { name: "buyDomain", args: { price: r.u64() } };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.wrap)) {
+    decoded = { name: "wrap", args: {} };
+  } else if (is(INSTRUCTION_DISCRIMINATORS.unwrap)) {
+    decoded = { name: "unwrap", args: {} };
+  } else {
+    throw new DiscriminatorMismatchError("a carv_domain instruction", Array.from(disc));
+  }
+
+  if (r.remaining > 0) {
+    throw new MalformedDataError(`${r.remaining} trailing bytes after ${decoded.name}`);
+  }
+  return decoded;
+}
@@ -0,0 +1,57 @@
+import { AnchorError, ProgramError } from "@coral-xyz/anchor";
+import { CarvDomain } from "../target/types/carv_domain";
+import idl from "../target/idl/carv_domain.json";
+import { logsOf } from "./transaction";
+
+// Error names declared by the program's `Err` enum
+export type ProgramErrorName =
+  | "InvalidLen"
+  | "InvalidChar"
+  | "NotOwner"
+  | "Expired"
+  | "InvalidRecord"
+  | "InvalidParent"
+  | "NotReclaimable"
+  | "NotExpired"
+  | "InvalidYears"
+  | "InvalidTreasury"
+  | "Paused"
+  | "NotAuthority"
+  | "NotRecipient"
+  | "StaleOffer"
+  | "InvalidPrice"
+  | "PriceMismatch"
+  | "InvalidHyphen"
+  | "NotWrapped"
+  | "OfferPending"
+  | "ReleaseTooSoon"
+  | "CommitmentMismatch"
+  | "CommitmentTooNew"
+  | "CommitmentExpired"
+  | "InvalidAmount"
+  | "RenewTooEarly"
+  | "VaultEmpty"
+  | "OutdatedAccount"
+  | "AlreadyMigrated"
+  | "MintRequired"
+  | "CommitmentNotExpired";
+
+const ERROR_NAMES = new Map<number, ProgramErrorName>(
+  (idl as CarvDomain).errors.map((e) => [e.code, e.name])
+);
+
+// Extract the program error name from a failed Anchor call, if any
+export function getProgramErrorName(error: unknown): ProgramErrorName | undefined {
+  if (error instanceof AnchorError) {
+    return ERROR_NAMES.get(error.error.errorCode.number);
+  }
+  if (error instanceof ProgramError) {
+    return ERROR_NAMES.get(error.code);
+  }
+  const logs = logsOf(error);
+  if (logs) {
+    const parsed = AnchorError.parse(logs);
+    if (parsed) return ERROR_NAMES.get(parsed.error.errorCode.number);
+  }
+  return undefined;
+}
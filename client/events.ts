@@ -0,0 +1,347 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import {
+  BorshReader,
+  DiscriminatorMismatchError,
+  EVENT_DISCRIMINATORS,
+  EventName,
+  MalformedDataError,
+} from "./codec";
+import { RecordKind } from "./records";
+
+// Events emitted by the program (see the #[event] structs in program/src/lib.rs)
+
+export interface ConfigUpdated {
+  authority: PublicKey;
+  treasury: PublicKey;
+  price3Chars: BN;
+  price4Chars: BN;
+  priceDefault: BN;
+  paused: boolean;
+}
+
+// From register, or from reclaim when `previousOwner` is set
+export interface DomainRegistered {
+  domain: PublicKey;
+  name: string;
+  previousOwner: PublicKey | null;
+  owner: PublicKey;
+  payer: PublicKey;
+  expires: BN;
+  years: number;
+  cost: BN;
+}
+
+export interface DomainRenewed {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  payer: PublicKey;
+  previousExpires: BN;
+  expires: BN;
+  years: number;
+  cost: BN;
+}
+
+// From deposit_renewal and withdraw_renewal; `balance` excludes the vault's rent
+export interface RenewalVaultUpdated {
+  domain: PublicKey;
+  owner: PublicKey;
+  balance: BN;
+}
+
+export interface DomainExpired {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  expires: BN;
+}
+
+// From migrate, when an account is rewritten in a newer layout
+export interface DomainMigrated {
+  domain: PublicKey;
+  name: string;
+  fromVersion: number;
+  toVersion: number;
+}
+
+export interface DomainReleased {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+}
+
+// From transfer, accept_transfer and buy_domain; `price` is 0 unless the name was bought
+export interface DomainTransferred {
+  domain: PublicKey;
+  name: string;
+  previousOwner: PublicKey;
+  owner: PublicKey;
+  // Signed the transfer, acceptance or purchase
+  payer: PublicKey;
+  expires: BN;
+  price: BN;
+}
+
+export interface TransferProposed {
+  domain: PublicKey;
+  name: string;
+  from: PublicKey;
+  to: PublicKey;
+}
+
+export interface TransferCancelled {
+  domain: PublicKey;
+  from: PublicKey;
+  to: PublicKey;
+}
+
+export interface DomainListed {
+  domain: PublicKey;
+  name: string;
+  seller: PublicKey;
+  price: BN;
+}
+
+export interface DomainDelisted {
+  domain: PublicKey;
+  seller: PublicKey;
+}
+
+export interface DomainWrapped {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  mint: PublicKey;
+  expires: BN;
+}
+
+// `owner` is the token holder that unwrapped
+export interface DomainUnwrapped {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  mint: PublicKey;
+}
+
+export interface DataUpdated {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  // The owner, token holder or manager who signed
+  payer: PublicKey;
+  expires: BN;
+  data: string;
+}
+
+// `manager` is null when the owner revoked it
+export interface ManagerUpdated {
+  domain: PublicKey;
+  name: string;
+  owner: PublicKey;
+  manager: PublicKey | null;
+}
+
+// `domain` is null when the primary name was cleared
+export interface PrimaryUpdated {
+  owner: PublicKey;
+  domain: PublicKey | null;
+}
+
+// `value` is null when the record was deleted
+export interface RecordUpdated {
+  domain: PublicKey;
+  kind: RecordKind;
+  value: string | null;
+}
+
+export interface SubdomainUpdated {
+  parent: PublicKey;
+  subdomain: PublicKey;
+  label: string;
+  owner: PublicKey;
+  data: string;
+  deleted: boolean;
+}
+
+export type DomainEvent =
+  | { name: "configUpdated"; data: ConfigUpdated }
+  | { name: "domainRegistered"; data: DomainRegistered }
+  | { name: "domainRenewed"; data: DomainRenewed }
+  | { name: "renewalVaultUpdated"; data: RenewalVaultUpdated }
+  | { name: "domainExpired"; data: DomainExpired }
+  | { name: "domainReleased"; data: DomainReleased }
+  | { name: "domainMigrated"; data: DomainMigrated }
+  | { name: "domainTransferred"; data: DomainTransferred }
+  | { name: "transferProposed"; data: TransferProposed }
+  | { name: "transferCancelled"; data: TransferCancelled }
+  | { name: "domainListed"; data: DomainListed }
+  | { name: "domainDelisted"; data: DomainDelisted }
+  | { name: "domainWrapped"; data: DomainWrapped }
+  | { name: "domainUnwrapped"; data: DomainUnwrapped }
+  | { name: "dataUpdated"; data: DataUpdated }
+  | { name: "managerUpdated"; data: ManagerUpdated }
+  | { name: "primaryUpdated"; data: PrimaryUpdated }
+  | { name: "recordUpdated"; data: RecordUpdated }
+  | { name: "subdomainUpdated"; data: SubdomainUpdated };
+
+export type DomainEventName = EventName;
+
+export interface DomainEventFilter {
+  // Only these event kinds (default: all)
+  events?: DomainEventName[];
+  // Only events about this Domain account
+  domain?: PublicKey;
+  // Only events where this wallet is an owner, manager, payer, sender or recipient
+  wallet?: PublicKey;
+}
+
+const EVENT_READERS: { [K in EventName]: (r: BorshReader) => Extract<DomainEvent, { name: K }>["data"] } = {
+  configUpdated: (r) => ({
+    authority: r.publicKey(),
+    treasury: r.publicKey(),
+    price3Chars: r.u64(),
+    price4Chars: r.u64(),
+    priceDefault: r.u64(),
+    paused: r.bool(),
+  }),
+  domainRegistered: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    previousOwner: r.option(() => r.publicKey()),
+    owner: r.publicKey(),
+    payer: r.publicKey(),
+    expires: r.i64(),
+    years: r.u8(),
+    cost: r.u64(),
+  }),
+  domainRenewed: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    owner: r.publicKey(),
+    payer: r.publicKey(),
+    previousExpires: r.i64(),
+    expires: r.i64(),
+    years: r.u8(),
+    cost: r.u64(),
+  }),
+  renewalVaultUpdated: (r) => ({ domain: r.publicKey(), owner: r.publicKey(), balance: r.u64() }),
+  domainExpired: (r) => ({ domain: r.publicKey(), name: r.string(), owner: r.publicKey(), expires: r.i64() }),
+  domainReleased: (r) => ({ domain: r.publicKey(), name: r.string(), owner: r.publicKey() }),
+  domainMigrated: (r) => ({ domain: r.publicKey(), name: r.string(), fromVersion: r.u8(), toVersion: r.u8() }),
+  domainTransferred: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    previousOwner: r.publicKey(),
+    owner: r.publicKey(),
+    payer: r.publicKey(),
+    expires: r.i64(),
+    price: r.u64(),
+  }),
+  transferProposed: (r) => ({ domain: r.publicKey(), name: r.string(), from: r.publicKey(), to: r.publicKey() }),
+  transferCancelled: (r) => ({ domain: r.publicKey(), from: r.publicKey(), to: r.publicKey() }),
+  domainListed: (r) => ({ domain: r.publicKey(), name: r.string(), seller: r.publicKey(), price: r.u64() }),
+  domainDelisted: (r) => ({ domain: r.publicKey(), seller: r.publicKey() }),
+  domainWrapped: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    owner: r.publicKey(),
+    mint: r.publicKey(),
+    expires: r.i64(),
+  }),
+  domainUnwrapped: (r) => ({ domain: r.publicKey(), name: r.string(), owner: r.publicKey(), mint: r.publicKey() }),
+  dataUpdated: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    owner: r.publicKey(),
+    payer: r.publicKey(),
+    expires: r.i64(),
+    data: r.string(),
+  }),
+  managerUpdated: (r) => ({
+    domain: r.publicKey(),
+    name: r.string(),
+    owner: r.publicKey(),
+    manager: r.option(() => r.publicKey()),
+  }),
+  primaryUpdated: (r) => ({ owner: r.publicKey(), domain: r.option(() => r.publicKey()) }),
+  recordUpdated: (r) => ({ domain: r.publicKey(), kind: r.recordKind(), value: r.option(() => r.string()) }),
+  subdomainUpdated: (r) => ({
+    parent: r.publicKey(),
+    subdomain: r.publicKey(),
+    label: r.string(),
+    owner: r.publicKey(),
+    data: r.string(),
+    deleted: r.bool(),
+  }),
+};
+
+// Decode the bytes of one `Program data:` log line
+export function decodeEvent(data: Uint8Array): DomainEvent {
+  const r = new BorshReader(data);
+  const disc = r.bytesFixed(8);
+  const name = (Object.keys(EVENT_DISCRIMINATORS) as EventName[]).find((n) =>
+    EVENT_DISCRIMINATORS[n].every((b, i) => b === disc[i])
+  );
+  if (!name) throw new DiscriminatorMismatchError("a carv_domain event", Array.from(disc));
+
+  const event = { name, data: EVENT_READERS[name](r) } as DomainEvent;
+  if (r.remaining > 0) {
+    throw new MalformedDataError(`${r.remaining} trailing bytes after ${name}`);
+  }
+  return event;
+}
+
+function base64ToBytes(value: string) {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// Events in a transaction's log messages that were emitted by `programId` itself,
+// not by programs it invoked or that invoked it
+export function parseEventLogs(logs: string[], programId: PublicKey): DomainEvent[] {
+  const program = programId.toBase58();
+  const stack: string[] = [];
+  const events: DomainEvent[] = [];
+
+  for (const line of logs) {
+    const invoke = /^Program (\w+) invoke \[\d+\]$/.exec(line);
+    if (invoke) {
+      stack.push(invoke[1]);
+    } else if (/^Program \w+ (success|failed)/.test(line)) {
+      stack.pop();
+    } else if (line.startsWith("Program data: ") && stack[stack.length - 1] === program) {
+      try {
+        events.push(decodeEvent(base64ToBytes(line.slice("Program data: ".length))));
+      } catch {
+        // Not one of ours (e.g. an event from a newer program version)
+      }
+    }
+  }
+  return events;
+}
+
+// Domain account an event is about; for subdomains this is the parent
+export function eventDomain(event: DomainEvent): PublicKey | null {
+  switch (event.name) {
+    case "configUpdated":
+      return null;
+    case "subdomainUpdated":
+      return event.data.parent;
+    default:
+      return event.data.domain;
+  }
+}
+
+// Wallets named in an event
+export function eventWallets(event: DomainEvent): PublicKey[] {
+  const data = event.data as Partial<Record<string, unknown>>;
+  const wallets = ["owner", "previousOwner", "manager", "payer", "from", "to", "seller"].map((key) => data[key]);
+  return wallets.filter((w): w is PublicKey => w instanceof PublicKey);
+}
+
+export function matchesEventFilter(event: DomainEvent, filter: DomainEventFilter) {
+  if (filter.events && !filter.events.includes(event.name)) return false;
+  if (filter.domain && !eventDomain(event)?.equals(filter.domain)) return false;
+  if (filter.wallet && !eventWallets(event).some((w) => w.equals(filter.wallet!))) return false;
+  return true;
+}
@@ -0,0 +1,13 @@
+export * from "./carvDomainClient";
+export * from "./pda";
+export * from "./codec";
+export * from "./errors";
+export * from "./records";
+export * from "./proofs";
+export * from "./names";
+export * from "./lifecycle";
+export * from "./pricing";
+export * from "./events";
+export * from "./transaction";
+export * from "./batch";
+export * from "./keypair";
@@ -0,0 +1,13 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+
+// Reads a keypair file as written by `solana-keygen`; a leading "~" is the home directory.
+// Null if the file does not exist, so callers decide whether they need one
+export function loadKeypair(file: string): Keypair | null {
+  const resolved = file.startsWith("~") ? path.join(os.homedir(), file.slice(1)) : file;
+  if (!fs.existsSync(resolved)) return null;
+  const secret = JSON.parse(fs.readFileSync(resolved, "utf8"));
+  return Keypair.fromSecretKey(Uint8Array.from(secret));
+}
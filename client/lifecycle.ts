@@ -0,0 +1,44 @@
+import { Domain } from "./codec";
+
+// Mirrors YEAR_SECONDS and GRACE_SECONDS in program/src/lib.rs
+export const YEAR_SECONDS = 31_536_000;
+export const GRACE_PERIOD_SECONDS = 2_592_000;
+// Mirrors MIN_COMMITMENT_AGE and MAX_COMMITMENT_AGE: when a commitment can be revealed
+export const MIN_COMMITMENT_AGE_SECONDS = 60;
+export const MAX_COMMITMENT_AGE_SECONDS = 86_400;
+// Mirrors AUTO_RENEW_WINDOW: how long before expiry crank_renew is allowed
+export const AUTO_RENEW_WINDOW_SECONDS = 2_592_000;
+
+export const DAY_SECONDS = 86_400;
+// Days before expiry at which owners are reminded to renew; 0 is the expiry itself
+export const EXPIRY_REMINDER_DAYS = [30, 7, 1, 0];
+
+// active: resolves normally
+// grace: expired, only the owner can renew
+// expired: anyone can reclaim it
+// available: never registered
+export type DomainStatus = "active" | "grace" | "expired" | "available";
+
+export function getDomainStatus(domain: Pick<Domain, "expires"> | null, now = Math.floor(Date.now() / 1000)): DomainStatus {
+  if (!domain) return "available";
+  const expires = domain.expires.toNumber();
+  if (now < expires) return "active";
+  if (now < expires + GRACE_PERIOD_SECONDS) return "grace";
+  return "expired";
+}
+
+// Whole days until `expires`, rounded up so a name expiring later today has 1 day left; 0 once expired
+export function daysUntilExpiry(domain: Pick<Domain, "expires">, now = Math.floor(Date.now() / 1000)) {
+  return Math.max(0, Math.ceil((domain.expires.toNumber() - now) / DAY_SECONDS));
+}
+
+// True if crank_renew would accept the name now (it still needs a funded vault)
+export function isRenewalDue(domain: Pick<Domain, "expires">, now = Math.floor(Date.now() / 1000)) {
+  const expires = domain.expires.toNumber();
+  return now >= expires - AUTO_RENEW_WINDOW_SECONDS && now < expires + GRACE_PERIOD_SECONDS;
+}
+
+// True if `name` can be registered (or reclaimed) by anyone right now
+export function isRegistrable(status: DomainStatus) {
+  return status === "available" || status === "expired";
+}
@@ -0,0 +1,53 @@
+import { MAX_NAME_LEN } from "./codec";
+
+export const TLD = ".carv";
+
+export const MIN_NAME_LEN = 3;
+export const MIN_LABEL_LEN = 1;
+
+export interface ParsedName {
+  // Top-level name that owns the Domain account
+  parent: string;
+  // Subdomain label, when the name is `label.parent`
+  label?: string;
+}
+
+// The program error the same name would fail with on-chain
+export type InvalidNameCode = "InvalidChar" | "InvalidLen" | "InvalidHyphen";
+
+export class InvalidNameError extends Error {
+  constructor(readonly input: string, readonly code: InvalidNameCode, message: string) {
+    super(message);
+    this.name = "InvalidNameError";
+  }
+}
+
+// Canonical form used for PDAs: trimmed, lowercase, without the ".carv" suffix.
+// Non-ASCII characters are kept so validateName can reject look-alikes such as Cyrillic "а".
+export function normalizeName(input: string) {
+  const lower = input.trim().replace(/[A-Z]/g, (c) => c.toLowerCase());
+  return lower.endsWith(TLD) ? lower.slice(0, -TLD.length) : lower;
+}
+
+// Same rules as validate_name in program/src/lib.rs; returns `name` if it is canonical
+export function validateName(name: string, minLength = MIN_NAME_LEN): string {
+  if (!/^[a-z0-9-]*$/.test(name)) {
+    throw new InvalidNameError(name, "InvalidChar", `${name} may only contain a-z, 0-9 and hyphens`);
+  }
+  if (name.length < minLength || name.length > MAX_NAME_LEN) {
+    throw new InvalidNameError(name, "InvalidLen", `${name} must be ${minLength}-${MAX_NAME_LEN} characters`);
+  }
+  if (name.startsWith("-") || name.endsWith("-") || name.includes("--")) {
+    throw new InvalidNameError(name, "InvalidHyphen", `${name} cannot start or end with a hyphen or contain "--"`);
+  }
+  return name;
+}
+
+// Split "alice.team.carv", "alice.team" or "team" into parent and label
+export function splitName(name: string): ParsedName {
+  const parts = normalizeName(name).split(".");
+  if (parts.length > 2 || parts.some((p) => p.length === 0)) {
+    throw new InvalidNameError(name, "InvalidChar", `Unsupported name: ${name}`);
+  }
+  return parts.length === 2 ? { label: parts[0], parent: parts[1] } : { parent: parts[0] };
+}
@@ -0,0 +1,120 @@
+import * as anchor from "@coral-xyz/anchor";
+import { createHash } from "crypto";
+import { RecordKind } from "./records";
+
+export const DOMAIN_SEED = "domain";
+export const REVERSE_SEED = "reverse";
+export const RECORD_SEED = "record";
+export const SUBDOMAIN_SEED = "subdomain";
+export const CONFIG_SEED = "config";
+export const PENDING_SEED = "pending";
+export const LISTING_SEED = "listing";
+export const MINT_SEED = "mint";
+export const COMMIT_SEED = "commit";
+export const VAULT_SEED = "vault";
+
+// Wrapped domains are Token-2022 mints held in associated token accounts
+export const TOKEN_2022_PROGRAM_ID = new anchor.web3.PublicKey("TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb");
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new anchor.web3.PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+export const BPF_LOADER_UPGRADEABLE_PROGRAM_ID = new anchor.web3.PublicKey("BPFLoaderUpgradeab1e11111111111111111111111");
+
+// Holds the program's code and upgrade authority; only that authority may initialize the config
+export function getProgramDataAddress(programId: anchor.web3.PublicKey) {
+  const [address] = anchor.web3.PublicKey.findProgramAddressSync(
+    [programId.toBuffer()],
+    BPF_LOADER_UPGRADEABLE_PROGRAM_ID
+  );
+  return address;
+}
+
+// Program-wide config (authority, treasury, prices, paused)
+export function getConfigPDA(programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync([Buffer.from(CONFIG_SEED)], programId);
+}
+
+// Helper to get domain PDA
+export function getDomainPDA(name: string, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(DOMAIN_SEED), Buffer.from(name)],
+    programId
+  );
+}
+
+// Reverse record holding a wallet's primary name
+export function getReversePDA(owner: anchor.web3.PublicKey, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(REVERSE_SEED), owner.toBuffer()],
+    programId
+  );
+}
+
+// One typed record of a domain, keyed by its RecordKind
+export function getRecordPDA(domain: anchor.web3.PublicKey, kind: RecordKind, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(RECORD_SEED), domain.toBuffer(), Buffer.from([kind])],
+    programId
+  );
+}
+
+// Subdomain `label` under the parent Domain account
+export function getSubdomainPDA(parent: anchor.web3.PublicKey, label: string, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(SUBDOMAIN_SEED), parent.toBuffer(), Buffer.from(label)],
+    programId
+  );
+}
+
+// Transfer proposed by a domain's owner, waiting for the recipient
+export function getPendingTransferPDA(domain: anchor.web3.PublicKey, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(PENDING_SEED), domain.toBuffer()],
+    programId
+  );
+}
+
+// Fixed-price sale of a domain
+export function getListingPDA(domain: anchor.web3.PublicKey, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(LISTING_SEED), domain.toBuffer()],
+    programId
+  );
+}
+
+// Same as commitment_hash in program/src/lib.rs: sha256(name || owner || salt)
+export function getCommitmentHash(name: string, owner: anchor.web3.PublicKey, salt: Uint8Array) {
+  return Uint8Array.from(createHash("sha256").update(name).update(owner.toBuffer()).update(salt).digest());
+}
+
+// Registration commitment, seeded by its hash
+export function getCommitmentPDA(hash: Uint8Array, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync([Buffer.from(COMMIT_SEED), Buffer.from(hash)], programId);
+}
+
+// Prepaid renewals of `domain`, one per owner who deposited
+export function getRenewalVaultPDA(
+  domain: anchor.web3.PublicKey,
+  owner: anchor.web3.PublicKey,
+  programId: anchor.web3.PublicKey
+) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(VAULT_SEED), domain.toBuffer(), owner.toBuffer()],
+    programId
+  );
+}
+
+// Token mint of a wrapped domain; each registration (see Domain.registered) gets its own
+export function getMintPDA(domain: anchor.web3.PublicKey, registered: anchor.BN, programId: anchor.web3.PublicKey) {
+  return anchor.web3.PublicKey.findProgramAddressSync(
+    [Buffer.from(MINT_SEED), domain.toBuffer(), registered.toArrayLike(Buffer, "le", 8)],
+    programId
+  );
+}
+
+// Associated Token-2022 account of `owner` for `mint`
+export function getTokenAccountAddress(owner: anchor.web3.PublicKey, mint: anchor.web3.PublicKey) {
+  const [address] = anchor.web3.PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_2022_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
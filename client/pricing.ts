@@ -0,0 +1,48 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import BN from "bn.js";
+import { Config } from "./codec";
+
+// Mirrors MAX_YEARS and domain_price in program/src/lib.rs
+export const MAX_YEARS = 10;
+
+// Yearly prices in lamports as stored in the config account
+export type PriceTable = Pick<Config, "price3Chars" | "price4Chars" | "priceDefault">;
+
+// Prices a freshly initialized config starts with
+export const DEFAULT_PRICES: PriceTable = {
+  price3Chars: new BN(160_000_000),
+  price4Chars: new BN(80_000_000),
+  priceDefault: new BN(20_000_000),
+};
+
+export class InvalidYearsError extends Error {
+  constructor(readonly years: number) {
+    super(`Years must be a whole number between 1 and ${MAX_YEARS}, got ${years}`);
+    this.name = "InvalidYearsError";
+  }
+}
+
+// Tiers go by length; canonical names are ASCII so bytes and characters agree
+export function pricePerYear(name: string, prices: PriceTable = DEFAULT_PRICES) {
+  switch (new TextEncoder().encode(name).length) {
+    case 3:
+      return prices.price3Chars.toNumber();
+    case 4:
+      return prices.price4Chars.toNumber();
+    default:
+      return prices.priceDefault.toNumber();
+  }
+}
+
+// Lamports charged by register, renew or reclaim for `years` years of `name`
+export function quotePrice(name: string, years = 1, prices: PriceTable = DEFAULT_PRICES) {
+  if (!Number.isInteger(years) || years < 1 || years > MAX_YEARS) {
+    throw new InvalidYearsError(years);
+  }
+  return pricePerYear(name, prices) * years;
+}
+
+// "0.16" style SOL amount for display
+export function formatSol(lamports: number) {
+  return String(lamports / LAMPORTS_PER_SOL);
+}
@@ -0,0 +1,116 @@
+import { PublicKey } from "@solana/web3.js";
+import bs58 from "bs58";
+import nacl from "tweetnacl";
+import { Domain, MAX_DATA_LEN } from "./codec";
+import { TLD } from "./names";
+
+// Identity proofs: the owner signs the claims in a name's data (e.g. {"twitter":"alice"})
+// together with the name, owner and registration time, and stores the signature beside them
+// as {"twitter":"alice","proof":"<base58 signature>"}. Anyone can check it offline.
+// A transfer changes the owner and a reclaim changes `registered`, so both leave it stale.
+// The signature takes about 100 of the MAX_DATA_LEN bytes, leaving room for one short claim.
+
+export const PROOF_KEY = "proof";
+const PROOF_HEADER = "carv-domain identity proof";
+// Longest base58 encoding of a 64-byte signature
+const MAX_SIGNATURE_LEN = 88;
+
+// Handles or URLs keyed like records ("twitter", "github", "url", ...)
+export type Claims = Record<string, string>;
+
+export type ProofStatus = "verified" | "unverified" | "none";
+
+export interface ProofCheck {
+  status: ProofStatus;
+  claims: Claims;
+  // Why an "unverified" proof failed
+  reason?: string;
+}
+
+// Signs the message from proofMessage, e.g. a wallet adapter's signMessage
+export type MessageSigner = (message: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+type ProofSubject = Pick<Domain, "name" | "owner" | "registered">;
+
+export class InvalidProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidProofError";
+  }
+}
+
+// Claims end up one per line in the signed text; a line break inside one could pass it off as two
+function checkClaims(claims: Record<string, unknown>): Claims {
+  for (const [key, value] of Object.entries(claims)) {
+    if (key === PROOF_KEY) throw new InvalidProofError(`"${PROOF_KEY}" is reserved for the signature`);
+    if (typeof value !== "string") throw new InvalidProofError(`Claim "${key}" is not a string`);
+    if (!key || /[\x00-\x1f\x7f:]/.test(key) || /[\x00-\x1f\x7f]/.test(value)) {
+      throw new InvalidProofError(`Invalid claim "${key}"`);
+    }
+  }
+  return claims as Claims;
+}
+
+// The exact text the owner signs; `owner` is the wallet that signs, i.e. the token holder of a wrapped name
+export function proofMessage(domain: ProofSubject, claims: Claims, owner: PublicKey = domain.owner) {
+  const lines = [
+    PROOF_HEADER,
+    `name: ${domain.name}${TLD}`,
+    `owner: ${owner.toBase58()}`,
+    `registered: ${domain.registered.toString()}`,
+    ...Object.keys(checkClaims(claims))
+      .sort()
+      .map((key) => `${key}: ${claims[key]}`),
+  ];
+  return new TextEncoder().encode(lines.join("\n"));
+}
+
+// Signs `claims` and returns the data to store on the name
+export async function createProof(
+  domain: ProofSubject,
+  claims: Claims,
+  sign: MessageSigner,
+  owner: PublicKey = domain.owner
+): Promise<string> {
+  // Sized before signing, so the wallet is not asked to sign data that cannot be stored
+  const message = proofMessage(domain, claims, owner);
+  const largest = JSON.stringify({ ...claims, [PROOF_KEY]: "1".repeat(MAX_SIGNATURE_LEN) });
+  const size = new TextEncoder().encode(largest).length;
+  if (size > MAX_DATA_LEN) {
+    throw new InvalidProofError(`Claims and proof need up to ${size} bytes, max ${MAX_DATA_LEN}`);
+  }
+  const signature = await sign(message);
+  return JSON.stringify({ ...claims, [PROOF_KEY]: bs58.encode(signature) });
+}
+
+// Checks the proof in the name's data against its current owner and term;
+// pass the token holder as `owner` for a wrapped name
+export function verifyProof(domain: ProofSubject & Pick<Domain, "data">, owner: PublicKey = domain.owner): ProofCheck {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(domain.data);
+  } catch {
+    return { status: "none", claims: {} };
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return { status: "none", claims: {} };
+
+  const { [PROOF_KEY]: proof, ...rest } = parsed as Record<string, unknown>;
+  const claims: Claims = Object.fromEntries(Object.entries(rest).filter(([, value]) => typeof value === "string"));
+  if (typeof proof !== "string") return { status: "none", claims };
+
+  let message: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    message = proofMessage(domain, checkClaims(rest), owner);
+    signature = bs58.decode(proof);
+  } catch (error) {
+    return { status: "unverified", claims, reason: error instanceof Error ? error.message : "Malformed proof" };
+  }
+  if (signature.length !== nacl.sign.signatureLength) {
+    return { status: "unverified", claims, reason: "Malformed signature" };
+  }
+
+  return nacl.sign.detached.verify(message, signature, owner.toBytes())
+    ? { status: "verified", claims }
+    : { status: "unverified", claims, reason: "Not signed by the current owner for this term" };
+}
@@ -0,0 +1,107 @@
+import { PublicKey } from "@solana/web3.js";
+
+// Mirrors the program's RecordKind enum; the numeric value is the Borsh variant index
+export enum RecordKind {
+  Sol = 0,
+  Eth = 1,
+  Btc = 2,
+  Url = 3,
+  Avatar = 4,
+  Twitter = 5,
+  Github = 6,
+  Email = 7,
+  Ipfs = 8,
+  Arweave = 9,
+}
+
+export const MAX_RECORD_LEN = 128;
+
+// Keys used for records in JSON (web forms, CLI, gateway responses)
+export const RECORD_KEYS: Record<string, RecordKind> = {
+  sol: RecordKind.Sol,
+  eth: RecordKind.Eth,
+  btc: RecordKind.Btc,
+  url: RecordKind.Url,
+  avatar: RecordKind.Avatar,
+  twitter: RecordKind.Twitter,
+  github: RecordKind.Github,
+  email: RecordKind.Email,
+  ipfs: RecordKind.Ipfs,
+  arweave: RecordKind.Arweave,
+};
+
+export function recordKey(kind: RecordKind) {
+  return RecordKind[kind].toLowerCase();
+}
+
+export function parseRecordKind(key: string): RecordKind {
+  const kind = RECORD_KEYS[key.toLowerCase()];
+  if (kind === undefined) {
+    throw new InvalidRecordError(key, `Unknown record type "${key}"`);
+  }
+  return kind;
+}
+
+export class InvalidRecordError extends Error {
+  constructor(readonly key: string, message: string) {
+    super(message);
+    this.name = "InvalidRecordError";
+  }
+}
+
+const BASE58 = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+function isUrl(value: string) {
+  return /^https?:\/\/\S+$/.test(value) && value.length > "https://".length && !/[\x00-\x1f\x7f-\x9f]/.test(value);
+}
+
+function isEmail(value: string) {
+  const at = value.indexOf("@");
+  const host = value.slice(at + 1);
+  return (
+    at > 0 &&
+    /^[!-~]+$/.test(value) &&
+    host.includes(".") &&
+    !host.startsWith(".") &&
+    !host.endsWith(".") &&
+    !host.includes("@")
+  );
+}
+
+function isSolAddress(value: string) {
+  try {
+    new PublicKey(value);
+    return BASE58.test(value);
+  } catch {
+    return false;
+  }
+}
+
+const VALIDATORS: Record<RecordKind, (value: string) => boolean> = {
+  [RecordKind.Sol]: isSolAddress,
+  [RecordKind.Eth]: (v) => /^0x[0-9a-fA-F]{40}$/.test(v),
+  [RecordKind.Btc]: (v) => /^bc1[a-z0-9]{11,87}$/.test(v) || (/^[13]/.test(v) && v.length >= 26 && v.length <= 35 && BASE58.test(v)),
+  [RecordKind.Url]: isUrl,
+  [RecordKind.Avatar]: (v) => isUrl(v) || v.startsWith("ipfs://") || v.startsWith("ar://"),
+  [RecordKind.Twitter]: (v) => /^[A-Za-z0-9_]{1,15}$/.test(v),
+  [RecordKind.Github]: (v) => /^[A-Za-z0-9][A-Za-z0-9-]{0,38}$/.test(v),
+  [RecordKind.Email]: isEmail,
+  [RecordKind.Ipfs]: (v) => (v.length === 46 && v.startsWith("Qm") && BASE58.test(v)) || /^b[a-z2-7]{58,}$/.test(v),
+  [RecordKind.Arweave]: (v) => /^[A-Za-z0-9_-]{43}$/.test(v),
+};
+
+// Same rules as validate_record in program/src/lib.rs.
+// Returns the value to store (Twitter handles lose their leading @).
+export function validateRecord(kind: RecordKind, value: string): string {
+  const normalized = kind === RecordKind.Twitter ? value.trim().replace(/^@/, "") : value.trim();
+  const key = recordKey(kind);
+
+  if (!normalized) throw new InvalidRecordError(key, `${key} record is empty`);
+  if (new TextEncoder().encode(normalized).length > MAX_RECORD_LEN) {
+    throw new InvalidRecordError(key, `${key} record is longer than ${MAX_RECORD_LEN} bytes`);
+  }
+  if (!VALIDATORS[kind](normalized)) {
+    throw new InvalidRecordError(key, `Invalid ${key} record: ${value}`);
+  }
+  return normalized;
+}
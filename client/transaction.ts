@@ -0,0 +1,253 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import type { CarvDomain } from "../target/types/carv_domain";
+import idl from "../target/idl/carv_domain.json";
+import type { ProgramErrorName } from "./errors";
+import { MAX_YEARS } from "./pricing";
+
+// Simulate, sign, send and confirm with retries; used by the web page.
+// Kept free of Anchor so it can be bundled like the codec.
+
+export type FailureReason = ProgramErrorName | "InsufficientFunds" | "UserRejected" | "BlockhashExpired" | "Unknown";
+
+export const FAILURE_MESSAGES: Record<FailureReason, string> = {
+  InvalidLen: "The name or value is too short or too long",
+  InvalidChar: "Names may only contain a-z, 0-9 and hyphens",
+  InvalidHyphen: 'Names cannot start or end with a hyphen or contain "--"',
+  NotOwner: "Your wallet does not own this name",
+  Expired: "This name has expired; renew it first",
+  InvalidRecord: "The record value is not valid for its type",
+  InvalidParent: "The subdomain does not belong to this name",
+  NotReclaimable: "This name is still in its grace period",
+  NotExpired: "This name has not expired yet",
+  InvalidYears: `Choose a term between 1 and ${MAX_YEARS} years`,
+  InvalidTreasury: "The fee recipient does not match the program config",
+  Paused: "Registrations are paused",
+  NotAuthority: "Only the program authority can do this",
+  NotRecipient: "This transfer was offered to a different wallet",
+  StaleOffer: "The name changed hands since this offer was made",
+  InvalidPrice: "The price must be greater than zero",
+  PriceMismatch: "The listing price changed; check the new price and try again",
+  NotWrapped: "This name is not wrapped as a token",
+  OfferPending: "Cancel the pending transfer or listing before releasing this name",
+  ReleaseTooSoon: "This name was registered a moment ago; wait a second before releasing it",
+  CommitmentMismatch: "No commitment matches this name, wallet and salt",
+  CommitmentTooNew: "The commitment is too recent; wait a minute before completing the registration",
+  CommitmentExpired: "The commitment is more than a day old; start the registration again",
+  InvalidAmount: "The amount must be greater than zero",
+  RenewTooEarly: "This name is not due for renewal yet; it can be renewed from its vault within 30 days of expiry",
+  VaultEmpty: "The renewal vault does not hold enough for another year; top it up first",
+  OutdatedAccount: "This name is stored in an older format; migrate it before changing it",
+  AlreadyMigrated: "This name already uses the current format",
+  MintRequired: "This name is wrapped; include its token mint to renew it",
+  CommitmentNotExpired: "The commitment can still be revealed; it can be closed once it is a day old",
+  InsufficientFunds: "Not enough SOL in your wallet to pay for this",
+  UserRejected: "The transaction was rejected in your wallet",
+  BlockhashExpired: "The network did not confirm the transaction in time; please try again",
+  Unknown: "The transaction failed",
+};
+
+export class TransactionFailedError extends Error {
+  constructor(
+    readonly reason: FailureReason,
+    readonly logs: string[] = [],
+    readonly signature?: string,
+    detail?: string
+  ) {
+    super(reason === "Unknown" && detail ? detail : FAILURE_MESSAGES[reason]);
+    this.name = "TransactionFailedError";
+  }
+}
+
+export type TransactionStep = "simulating" | "signing" | "sending" | "confirming";
+
+// Any wallet adapter: Phantom, Solflare, Backpack or a Keypair wrapper
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction(transaction: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+export interface PipelineOptions {
+  // Micro-lamports per compute unit; estimated from recent fees when omitted
+  priorityFee?: number;
+  // Sign and send again this many times in total when the blockhash expires
+  maxAttempts?: number;
+  onProgress?: (step: TransactionStep, attempt: number) => void;
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+// Head room over the simulated compute units
+const COMPUTE_MARGIN = 1.2;
+
+const ERROR_CODES = new Map<number, ProgramErrorName>(
+  (idl as CarvDomain).errors.map((e) => [e.code, e.name])
+);
+const ERROR_NAMES = new Set<string>(ERROR_CODES.values());
+
+// Fields web3.js, Anchor and wallets attach to what they throw, which need not be an Error
+interface ThrownFields {
+  message?: unknown;
+  name?: unknown;
+  code?: unknown;
+  logs?: unknown;
+}
+
+function fieldsOf(error: unknown): ThrownFields {
+  return typeof error === "object" && error !== null ? error : {};
+}
+
+// The thrown value as an Error, so callers can report its message
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Program logs attached to a failed send or simulation
+export function logsOf(error: unknown): string[] | undefined {
+  const { logs } = fieldsOf(error);
+  return Array.isArray(logs) && logs.every((line) => typeof line === "string") ? logs : undefined;
+}
+
+// Wallet errors can hold circular references
+function stringify(value: unknown) {
+  try {
+    return JSON.stringify(value) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+// Best guess at why a transaction failed, from its logs and the error it raised
+export function explainFailure(error: unknown, logs: string[] = []): FailureReason {
+  for (const line of logs) {
+    const anchor = /Error Code: (\w+)\./.exec(line);
+    if (anchor && ERROR_NAMES.has(anchor[1])) return anchor[1] as ProgramErrorName;
+  }
+  for (const line of logs) {
+    const custom = /Program (\w+) failed: custom program error: 0x([0-9a-f]+)/.exec(line);
+    if (custom && custom[1] === (idl as CarvDomain).address) {
+      const name = ERROR_CODES.get(parseInt(custom[2], 16));
+      if (name) return name;
+    }
+  }
+
+  const { message, name, code } = fieldsOf(error);
+  const text = `${stringify(error)} ${typeof message === "string" ? message : ""} ${logs.join("\n")}`;
+  if (/insufficient lamports|InsufficientFunds|insufficient funds|no record of a prior credit/i.test(text)) {
+    return "InsufficientFunds";
+  }
+  // 4001 is the EIP-1193 code wallets use for a rejected request
+  if (code === 4001 || /user rejected/i.test(text)) return "UserRejected";
+  // Compared by name: the page's web3.js and this bundle's are separate copies
+  if (name === "TransactionExpiredBlockheightExceededError") return "BlockhashExpired";
+  return "Unknown";
+}
+
+function toFailure(error: unknown, logs: string[] = [], signature?: string) {
+  if (error instanceof TransactionFailedError) return error;
+  const { message } = fieldsOf(error);
+  const detail = typeof message === "string" ? message : undefined;
+  return new TransactionFailedError(explainFailure(error, logs), logs, signature, detail);
+}
+
+// Median fee paid recently for the accounts these instructions write to; 0 if the RPC cannot tell
+export async function estimatePriorityFee(connection: Connection, instructions: TransactionInstruction[]) {
+  const writable = instructions.flatMap((ix) => ix.keys.filter((k) => k.isWritable).map((k) => k.pubkey));
+  try {
+    const fees = (await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writable }))
+      .map((f) => f.prioritizationFee)
+      .sort((a, b) => a - b);
+    return fees.length ? fees[Math.floor(fees.length / 2)] : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function compile(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  blockhash: string,
+  computeUnits: number,
+  priorityFee: number
+) {
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits })];
+  if (priorityFee > 0) budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [...budget, ...instructions],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+// Simulate before asking the wallet to sign, then send and confirm.
+// Signs again with a fresh blockhash if the first one expires before confirmation.
+export async function sendInstructions(
+  connection: Connection,
+  signer: TransactionSigner,
+  instructions: TransactionInstruction[],
+  options: PipelineOptions = {}
+): Promise<string> {
+  const progress = options.onProgress ?? (() => {});
+  const maxAttempts = options.maxAttempts ?? 3;
+
+  progress("simulating", 1);
+  const priorityFee = options.priorityFee ?? (await estimatePriorityFee(connection, instructions));
+  let latest = await connection.getLatestBlockhash("confirmed");
+  const simulation = await connection.simulateTransaction(
+    compile(signer.publicKey, instructions, latest.blockhash, MAX_COMPUTE_UNITS, priorityFee),
+    { sigVerify: false, commitment: "confirmed" }
+  );
+  if (simulation.value.err) {
+    const logs = simulation.value.logs ?? [];
+    throw new TransactionFailedError(explainFailure(simulation.value.err, logs), logs);
+  }
+  const used = simulation.value.unitsConsumed ?? MAX_COMPUTE_UNITS;
+  const computeUnits = Math.min(MAX_COMPUTE_UNITS, Math.ceil(used * COMPUTE_MARGIN));
+
+  for (let attempt = 1; ; attempt++) {
+    progress("signing", attempt);
+    let signed: VersionedTransaction;
+    try {
+      signed = await signer.signTransaction(
+        compile(signer.publicKey, instructions, latest.blockhash, computeUnits, priorityFee)
+      );
+    } catch (error) {
+      throw toFailure(error);
+    }
+
+    progress("sending", attempt);
+    let signature: string;
+    try {
+      signature = await connection.sendRawTransaction(signed.serialize(), { skipPreflight: true });
+    } catch (error) {
+      throw toFailure(error, logsOf(error));
+    }
+
+    progress("confirming", attempt);
+    try {
+      const { value } = await connection.confirmTransaction({ signature, ...latest }, "confirmed");
+      if (value.err) {
+        const tx = await connection.getTransaction(signature, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        });
+        const logs = tx?.meta?.logMessages ?? [];
+        throw new TransactionFailedError(explainFailure(value.err, logs), logs, signature);
+      }
+      return signature;
+    } catch (error) {
+      if (explainFailure(error) !== "BlockhashExpired") throw toFailure(error, [], signature);
+      // It may still have landed just before the blockhash ran out
+      const { value: status } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+      if (status && !status.err) return signature;
+      if (attempt >= maxAttempts) throw toFailure(error, [], signature);
+    }
+    latest = await connection.getLatestBlockhash("confirmed");
+  }
+}
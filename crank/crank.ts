@@ -0,0 +1,99 @@
+import { PublicKey } from "@solana/web3.js";
+import { setTimeout as sleep } from "timers/promises";
+import { BatchResult } from "../client/batch";
+import { CarvDomainClient, getTokenHolder } from "../client/carvDomainClient";
+import { decodeDomain, DOMAIN_VERSION } from "../client/codec";
+import { isRenewalDue } from "../client/lifecycle";
+import { quotePrice } from "../client/pricing";
+import { toError } from "../client/transaction";
+
+// getMultipleAccountsInfo takes at most 100 addresses
+const FETCH_CHUNK = 100;
+
+// A name whose owner's vault can pay for its next year right now
+export interface DueRenewal {
+  name: string;
+  domain: PublicKey;
+  vault: PublicKey;
+  // Lamports above the vault's rent
+  balance: number;
+  cost: number;
+  // Stored in a layout before DOMAIN_VERSION; crank_renew rejects it until someone migrates it
+  outdated: boolean;
+}
+
+// Finds names with a funded vault inside the auto-renew window and renews them.
+// Anyone can run it; the crank only pays transaction fees.
+export class RenewalCrank {
+  constructor(readonly client: CarvDomainClient) {}
+
+  async findDue(now = Math.floor(Date.now() / 1000)): Promise<DueRenewal[]> {
+    const connection = this.client.provider.connection;
+    const vaults = await this.client.getRenewalVaults();
+    if (vaults.length === 0) return [];
+
+    const config = await this.client.getConfig();
+    const rents = new Map<number, number>();
+    const rentOf = async (size: number) => {
+      if (!rents.has(size)) rents.set(size, await connection.getMinimumBalanceForRentExemption(size));
+      return rents.get(size)!;
+    };
+    const due: DueRenewal[] = [];
+    for (let i = 0; i < vaults.length; i += FETCH_CHUNK) {
+      const chunk = vaults.slice(i, i + FETCH_CHUNK);
+      const [domainInfos, vaultInfos] = await Promise.all([
+        connection.getMultipleAccountsInfo(chunk.map((v) => v.account.domain)),
+        connection.getMultipleAccountsInfo(chunk.map((v) => v.publicKey)),
+      ]);
+
+      for (const [j, { publicKey, account }] of chunk.entries()) {
+        const domainInfo = domainInfos[j];
+        const vaultInfo = vaultInfos[j];
+        if (!domainInfo || !vaultInfo) continue;
+
+        const domain = decodeDomain(domainInfo.data);
+        if (!isRenewalDue(domain, now)) continue;
+        // Vaults of earlier owners stay until withdrawn but no longer pay; a wrapped name's is its holder's
+        const owner = this.client.isWrapped(domain.name, domain)
+          ? await getTokenHolder(connection, domain.owner)
+          : domain.owner;
+        if (!owner?.equals(account.owner)) continue;
+
+        const balance = vaultInfo.lamports - (await rentOf(vaultInfo.data.length));
+        const cost = config ? quotePrice(domain.name, 1, config) : quotePrice(domain.name, 1);
+        if (balance < cost) continue;
+
+        const outdated = domain.version < DOMAIN_VERSION;
+        due.push({ name: domain.name, domain: account.domain, vault: publicKey, balance, cost, outdated });
+      }
+    }
+    return due;
+  }
+
+  // Crank every due name once; a name renewed this way leaves the window for another year.
+  // Outdated names are reported as failed without being sent, since one would fail every
+  // other name packed into the same transaction.
+  async runOnce(now?: number): Promise<BatchResult[]> {
+    const due = await this.findDue(now);
+    const skipped = due
+      .filter((d) => d.outdated)
+      .map((d) => ({ name: d.name, error: new Error("Stored in an old layout; migrate it first") }));
+    const ready = due.filter((d) => !d.outdated).map((d) => d.name);
+    return [...skipped, ...(ready.length > 0 ? await this.client.crankRenewMany(ready) : [])];
+  }
+
+  // Crank until `signal` aborts
+  async run(intervalMs: number, signal?: AbortSignal) {
+    while (!signal?.aborted) {
+      try {
+        for (const result of await this.runOnce()) {
+          if (result.error) console.error(`Could not renew ${result.name}.carv: ${result.error.message}`);
+          else console.log(`Renewed ${result.name}.carv: ${result.signature}`);
+        }
+      } catch (error) {
+        console.error(`Renewal crank failed: ${toError(error).message}`);
+      }
+      await sleep(intervalMs, undefined, { signal }).catch(() => undefined);
+    }
+  }
+}
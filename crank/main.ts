@@ -0,0 +1,39 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Connection } from "@solana/web3.js";
+import { CarvDomainClient } from "../client/carvDomainClient";
+import { loadKeypair } from "../client/keypair";
+import { RenewalCrank } from "./crank";
+
+// RPC_URL   cluster to renew on (default localnet)
+// KEYPAIR   fee payer for crank transactions (default ~/.config/solana/id.json)
+// POLL_MS   delay between passes (default 60000)
+// ONCE      set to crank a single pass and exit, e.g. from cron
+const env = process.env;
+
+async function main() {
+  const connection = new Connection(env.RPC_URL ?? "http://127.0.0.1:8899", "confirmed");
+  const keypairFile = env.KEYPAIR ?? "~/.config/solana/id.json";
+  const payer = loadKeypair(keypairFile);
+  if (!payer) throw new Error(`No keypair at ${keypairFile}`);
+  const client = CarvDomainClient.fromWallet(connection, new anchor.Wallet(payer));
+  const crank = new RenewalCrank(client);
+
+  if (env.ONCE) {
+    const results = await crank.runOnce();
+    for (const result of results) {
+      console.log(result.error ? `${result.name}: ${result.error.message}` : `${result.name}: ${result.signature}`);
+    }
+    process.exitCode = results.some((r) => r.error) ? 1 : 0;
+    return;
+  }
+
+  console.log(`Cranking renewals for ${client.programId.toBase58()} as ${payer.publicKey.toBase58()}`);
+  const stop = new AbortController();
+  process.once("SIGINT", () => stop.abort());
+  await crank.run(Number(env.POLL_MS ?? 60_000), stop.signal);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import idl from "../target/idl/carv_domain.json";
+import { NameResolver } from "./resolver";
+import { createGatewayServer } from "./server";
+
+// RPC_URL       cluster to resolve against (default localnet); account changes use its websocket
+// PROGRAM_ID    program owning the names (default: address in the IDL)
+// PORT          HTTP port (default 8081)
+// CACHE_TTL_MS  how long an unchanged lookup is cached (default 60000)
+// CACHE_SIZE    most lookups cached, and watched, at once (default 1000)
+const env = process.env;
+
+function main() {
+  const connection = new Connection(env.RPC_URL ?? "http://127.0.0.1:8899", "confirmed");
+  const programId = new PublicKey(env.PROGRAM_ID ?? idl.address);
+  const resolver = new NameResolver(connection, programId, {
+    ttlMs: Number(env.CACHE_TTL_MS ?? 60_000),
+    maxEntries: Number(env.CACHE_SIZE ?? 1000),
+  });
+  const port = Number(env.PORT ?? 8081);
+
+  const server = createGatewayServer(resolver).listen(port, () => {
+    console.log(`Resolving ${programId.toBase58()} names on http://localhost:${port}`);
+  });
+
+  process.once("SIGINT", () => {
+    server.close();
+    resolver.close();
+  });
+}
+
+main();
@@ -0,0 +1,254 @@
+import BN from "bn.js";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getTokenHolder } from "../client/carvDomainClient";
+import { decodeDomain, decodeDomainRecord, decodeReverseRecord, decodeSubdomain } from "../client/codec";
+import { splitName } from "../client/names";
+import { getDomainPDA, getMintPDA, getRecordPDA, getReversePDA, getSubdomainPDA } from "../client/pda";
+import { RECORD_KEYS, recordKey } from "../client/records";
+
+const RECORD_KINDS = Object.values(RECORD_KEYS);
+
+// A registered name as stored on-chain; status is left to the caller since it depends on the time.
+// Subdomains ("label.parent") have no mint or records, were registered when created and expire
+// with their parent.
+export interface Resolution {
+  name: string;
+  address: PublicKey;
+  // Token holder while the name is wrapped
+  owner: PublicKey;
+  mint: PublicKey | null;
+  registered: BN;
+  expires: BN;
+  data: string;
+  // Records of the current registration, keyed like RECORD_KEYS
+  records: Record<string, string>;
+}
+
+export interface PrimaryName {
+  name: string;
+  expires: BN;
+}
+
+export interface ResolverOptions {
+  // How long a lookup is served from memory when no watched account changes (default 60s)
+  ttlMs?: number;
+  // How long a name or wallet that was not found is remembered; misses are never watched (default 5s)
+  missTtlMs?: number;
+  // Most lookups kept in memory; the least recently used goes first (default 1000)
+  maxEntries?: number;
+  // Most account subscriptions open at once across all lookups (default 5000)
+  maxSubscriptions?: number;
+}
+
+// A lookup plus the accounts whose change makes it stale
+interface Loaded<T> {
+  value: T;
+  watch: PublicKey[];
+}
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  watched: string[];
+  timer: NodeJS.Timeout;
+}
+
+interface Watcher {
+  subscription: number;
+  keys: Set<string>;
+}
+
+// Resolves names and primary names straight from their PDAs, caching each lookup until
+// its TTL passes or one of the accounts it read changes. Token transfers of wrapped
+// names are not watched, so their holder can lag by up to one TTL. Only lookups that
+// found something are watched, and both the cache and its subscriptions are bounded, so
+// requests for random names cannot pile up subscriptions on the RPC node.
+export class NameResolver {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly watchers = new Map<string, Watcher>();
+
+  constructor(
+    readonly connection: Connection,
+    readonly programId: PublicKey,
+    readonly options: ResolverOptions = {}
+  ) {}
+
+  // `name` must already be canonical (see validateName); null if it was never registered
+  resolve(name: string): Promise<Resolution | null> {
+    const { parent, label } = splitName(name);
+    return this.cached(`name:${name}`, () => (label ? this.loadSubdomain(parent, label) : this.loadName(name)));
+  }
+
+  // The wallet's primary name, or null if it has none or no longer owns it
+  reverse(wallet: PublicKey): Promise<PrimaryName | null> {
+    return this.cached(`reverse:${wallet.toBase58()}`, () => this.loadReverse(wallet));
+  }
+
+  // Drop every cached lookup and subscription
+  close() {
+    for (const key of [...this.cache.keys()]) this.invalidate(key);
+  }
+
+  private cached<T>(key: string, load: () => Promise<Loaded<T>>): Promise<T> {
+    const hit = this.cache.get(key);
+    if (hit) {
+      // Map order is the eviction order; a hit moves to the back
+      this.cache.delete(key);
+      this.cache.set(key, hit);
+      return hit.value as Promise<T>;
+    }
+
+    const timer = this.expireIn(key, this.options.ttlMs ?? 60_000);
+    const entry: CacheEntry = { value: Promise.resolve(), watched: [], timer };
+    entry.value = load().then(
+      ({ value, watch }) => {
+        if (this.cache.get(key) !== entry) return value;
+        if (value === null) {
+          clearTimeout(entry.timer);
+          entry.timer = this.expireIn(key, this.options.missTtlMs ?? 5_000);
+        } else {
+          this.watchAll(key, entry, watch);
+        }
+        return value;
+      },
+      (error) => {
+        if (this.cache.get(key) === entry) this.invalidate(key);
+        throw error;
+      }
+    );
+    this.cache.set(key, entry);
+    this.evict(() => this.cache.size <= (this.options.maxEntries ?? 1000), key);
+    return entry.value as Promise<T>;
+  }
+
+  private expireIn(key: string, ms: number) {
+    const timer = setTimeout(() => this.invalidate(key), ms);
+    timer.unref();
+    return timer;
+  }
+
+  // Makes room by dropping other lookups first; if that is not enough the lookup lives out its TTL unwatched
+  private watchAll(key: string, entry: CacheEntry, watch: PublicKey[]) {
+    const max = this.options.maxSubscriptions ?? 5000;
+    const fits = () => this.watchers.size + watch.filter((a) => !this.watchers.has(a.toBase58())).length <= max;
+    this.evict(fits, key);
+    if (fits()) watch.forEach((address) => this.watch(key, entry, address));
+  }
+
+  // Drop the least recently used lookups other than `keep` until `done` holds
+  private evict(done: () => boolean, keep: string) {
+    for (const key of [...this.cache.keys()]) {
+      if (done()) return;
+      if (key !== keep) this.invalidate(key);
+    }
+  }
+
+  private watch(key: string, entry: CacheEntry, address: PublicKey) {
+    const id = address.toBase58();
+    let watcher = this.watchers.get(id);
+    if (!watcher) {
+      const subscription = this.connection.onAccountChange(address, () => this.changed(id), "confirmed");
+      watcher = { subscription, keys: new Set() };
+      this.watchers.set(id, watcher);
+    }
+    watcher.keys.add(key);
+    entry.watched.push(id);
+  }
+
+  private changed(address: string) {
+    for (const key of [...(this.watchers.get(address)?.keys ?? [])]) this.invalidate(key);
+  }
+
+  private invalidate(key: string) {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+    this.cache.delete(key);
+    clearTimeout(entry.timer);
+
+    for (const id of entry.watched) {
+      const watcher = this.watchers.get(id);
+      if (!watcher) continue;
+      watcher.keys.delete(key);
+      if (watcher.keys.size > 0) continue;
+      this.watchers.delete(id);
+      this.connection.removeAccountChangeListener(watcher.subscription).catch(() => {});
+    }
+  }
+
+  private async loadName(name: string): Promise<Loaded<Resolution | null>> {
+    const [address] = getDomainPDA(name, this.programId);
+    const recordAddresses = RECORD_KINDS.map((kind) => getRecordPDA(address, kind, this.programId)[0]);
+    // Missing records are watched too, so adding one refreshes the name
+    const watch = [address, ...recordAddresses];
+    const [domainInfo, ...recordInfos] = await this.connection.getMultipleAccountsInfo(watch, "confirmed");
+    if (!domainInfo) return { value: null, watch };
+
+    const domain = decodeDomain(domainInfo.data);
+    const records: Record<string, string> = {};
+    for (const info of recordInfos) {
+      if (!info) continue;
+      const record = decodeDomainRecord(info.data);
+      // Records written before the domain was reclaimed are ignored
+      if (record.domainRegistered.eq(domain.registered)) records[recordKey(record.kind)] = record.value;
+    }
+
+    const [mint] = getMintPDA(address, domain.registered, this.programId);
+    const wrapped = domain.owner.equals(mint);
+    const owner = wrapped ? (await getTokenHolder(this.connection, mint)) ?? domain.owner : domain.owner;
+
+    return {
+      value: {
+        name: domain.name,
+        address,
+        owner,
+        mint: wrapped ? mint : null,
+        registered: domain.registered,
+        expires: domain.expires,
+        data: domain.data,
+        records,
+      },
+      watch,
+    };
+  }
+
+  // Null once the parent was reclaimed by someone else, since the subdomain no longer resolves
+  private async loadSubdomain(parentName: string, label: string): Promise<Loaded<Resolution | null>> {
+    const [parentAddress] = getDomainPDA(parentName, this.programId);
+    const [address] = getSubdomainPDA(parentAddress, label, this.programId);
+    const watch = [address, parentAddress];
+    const [info, parentInfo] = await this.connection.getMultipleAccountsInfo(watch, "confirmed");
+    if (!info || !parentInfo) return { value: null, watch };
+
+    const subdomain = decodeSubdomain(info.data);
+    const parent = decodeDomain(parentInfo.data);
+    if (!parent.registered.eq(subdomain.parentRegistered)) return { value: null, watch };
+
+    return {
+      value: {
+        name: `${subdomain.label}.${parent.name}`,
+        address,
+        owner: subdomain.owner,
+        mint: null,
+        registered: subdomain.created,
+        expires: parent.expires,
+        data: subdomain.data,
+        records: {},
+      },
+      watch,
+    };
+  }
+
+  private async loadReverse(wallet: PublicKey): Promise<Loaded<PrimaryName | null>> {
+    const [address] = getReversePDA(wallet, this.programId);
+    const info = await this.connection.getAccountInfo(address, "confirmed");
+    if (!info) return { value: null, watch: [address] };
+
+    const record = decodeReverseRecord(info.data);
+    const watch = [address, record.domain];
+    const domainInfo = await this.connection.getAccountInfo(record.domain, "confirmed");
+    if (!domainInfo) return { value: null, watch };
+
+    const domain = decodeDomain(domainInfo.data);
+    if (!domain.owner.equals(wallet)) return { value: null, watch };
+    return { value: { name: domain.name, expires: domain.expires }, watch };
+  }
+}
@@ -0,0 +1,112 @@
+import * as http from "http";
+import { PublicKey } from "@solana/web3.js";
+import { getDomainStatus } from "../client/lifecycle";
+import { InvalidNameError, MIN_LABEL_LEN, splitName, TLD, validateName } from "../client/names";
+import { toError } from "../client/transaction";
+import { NameResolver, Resolution } from "./resolver";
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+class Redirect {
+  constructor(readonly location: string) {}
+}
+
+// Canonical "name" or "label.name"
+function parseName(input: string) {
+  try {
+    const { parent, label } = splitName(decodeURIComponent(input));
+    validateName(parent);
+    return label === undefined ? parent : `${validateName(label, MIN_LABEL_LEN)}.${parent}`;
+  } catch (error) {
+    if (error instanceof InvalidNameError) throw new HttpError(400, error.message);
+    if (error instanceof URIError) throw new HttpError(400, `${input} is not a valid URL-encoded name`);
+    throw error;
+  }
+}
+
+function parseWallet(input: string) {
+  try {
+    return new PublicKey(input);
+  } catch {
+    throw new HttpError(400, `${input} is not a valid public key`);
+  }
+}
+
+function expiredError(name: string, expires: number) {
+  return new HttpError(410, `${name}${TLD} expired at ${new Date(expires * 1000).toISOString()}`);
+}
+
+// 404 if never registered, 410 once expired (including the grace period)
+async function liveName(resolver: NameResolver, input: string, now: number) {
+  const name = parseName(input);
+  const resolved = await resolver.resolve(name);
+  if (!resolved) throw new HttpError(404, `${name}${TLD} is not registered`);
+  if (getDomainStatus(resolved, now) !== "active") throw expiredError(name, resolved.expires.toNumber());
+  return resolved;
+}
+
+function resolutionToJson(resolved: Resolution) {
+  return {
+    name: resolved.name,
+    address: resolved.address.toBase58(),
+    owner: resolved.owner.toBase58(),
+    mint: resolved.mint?.toBase58() ?? null,
+    registered: resolved.registered.toNumber(),
+    expires: resolved.expires.toNumber(),
+    status: "active",
+    data: resolved.data,
+    records: resolved.records,
+  };
+}
+
+// Route a GET request to a JSON body or a redirect
+async function route(resolver: NameResolver, url: URL, now: number): Promise<unknown> {
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (parts.length === 1 && parts[0] === "health") {
+    return { ok: true };
+  }
+  if (parts.length === 2 && parts[0] === "resolve") {
+    return resolutionToJson(await liveName(resolver, parts[1], now));
+  }
+  if (parts.length === 2 && parts[0] === "reverse") {
+    const wallet = parseWallet(parts[1]);
+    const primary = await resolver.reverse(wallet);
+    if (!primary) throw new HttpError(404, `${wallet.toBase58()} has no primary name`);
+    if (primary.expires.toNumber() <= now) throw expiredError(primary.name, primary.expires.toNumber());
+    return { wallet: wallet.toBase58(), name: primary.name };
+  }
+  if (parts.length === 2 && parts[0] === "go") {
+    const resolved = await liveName(resolver, parts[1], now);
+    if (!resolved.records.url) throw new HttpError(404, `${resolved.name}${TLD} has no url record`);
+    return new Redirect(resolved.records.url);
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+// Public resolution API: GET /resolve/:name, /reverse/:wallet and /go/:name (redirects to the url record)
+export function createGatewayServer(resolver: NameResolver) {
+  return http.createServer(async (req, res) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new HttpError(405, `${req.method} is not supported`);
+      const url = new URL(req.url ?? "/", "http://localhost");
+      body = await route(resolver, url, Math.floor(Date.now() / 1000));
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: toError(error).message };
+    }
+    if (body instanceof Redirect) {
+      res.writeHead(302, { Location: body.location, "Access-Control-Allow-Origin": "*" });
+      res.end();
+      return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(JSON.stringify(body));
+  });
+}
@@ -0,0 +1,193 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Connection, PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+import { setTimeout as sleep } from "timers/promises";
+import { decodeDomain, decodeInstruction, DecodedInstruction, DOMAIN_DISCRIMINATOR } from "../client/codec";
+import { DomainEvent, eventDomain, parseEventLogs } from "../client/events";
+import { toError } from "../client/transaction";
+import { DomainStore } from "./store";
+
+// Instructions that change a Domain account; its address is always the first account
+const TRACKED = new Set<DecodedInstruction["name"]>([
+  "register",
+  "registerWithReveal",
+  "renew",
+  "crankRenew",
+  "reclaim",
+  "transfer",
+  "acceptTransfer",
+  "buyDomain",
+  "setData",
+  "setManager",
+  "wrap",
+  "unwrap",
+  "expire",
+  "release",
+  "migrate",
+]);
+
+export interface IndexerOptions {
+  // Stop walking back through history after this many signatures on the first sync
+  historyLimit?: number;
+}
+
+// Instruction args as JSON-safe values (PublicKey and BN become strings)
+function argsToJson(args: object) {
+  return JSON.stringify(args, (_key, value) =>
+    value instanceof PublicKey ? value.toBase58() : anchor.BN.isBN(value) ? value.toString() : value
+  );
+}
+
+// Log lines of each top-level instruction, in order
+function logsByInstruction(logs: string[]) {
+  const segments: string[][] = [];
+  for (const line of logs) {
+    if (/^Program \w+ invoke \[1\]$/.test(line)) segments.push([]);
+    segments[segments.length - 1]?.push(line);
+  }
+  return segments;
+}
+
+// Payer and resulting expiry from the event an instruction emitted about `domain`, where it has them
+function outcomeOf(events: DomainEvent[], domain: PublicKey) {
+  const event = events.find((e) => eventDomain(e)?.equals(domain) && ("payer" in e.data || "expires" in e.data));
+  const data = event?.data as { payer?: PublicKey; expires?: anchor.BN } | undefined;
+  return { payer: data?.payer?.toBase58() ?? null, expires: data?.expires?.toNumber() ?? null };
+}
+
+export class DomainIndexer {
+  constructor(
+    readonly connection: Connection,
+    readonly programId: PublicKey,
+    readonly store: DomainStore,
+    readonly options: IndexerOptions = {}
+  ) {}
+
+  // Load the current state of every Domain account, then follow on from the newest transaction
+  async backfill() {
+    // Taken first, so transactions that land during the backfill are still synced
+    const [newest] = await this.connection.getSignaturesForAddress(this.programId, { limit: 1 }, "confirmed");
+    const slot = await this.connection.getSlot("confirmed");
+    const accounts = await this.connection.getProgramAccounts(this.programId, {
+      commitment: "confirmed",
+      filters: [{ memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(DOMAIN_DISCRIMINATOR) } }],
+    });
+    this.store.transaction(() => {
+      for (const { pubkey, account } of accounts) {
+        this.store.upsertDomain(pubkey, decodeDomain(account.data), slot);
+      }
+      if (newest) this.store.setCursor(newest.signature, newest.slot);
+    });
+    return accounts.length;
+  }
+
+  // Index every program transaction since the last cursor; returns how many were processed
+  async sync() {
+    let processed = 0;
+    for (const { signature, slot } of await this.newSignatures()) {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      // The node listed it but cannot return it yet; leave the cursor here and retry next pass
+      if (!tx) break;
+      const touched = tx.meta?.err ? [] : this.recordEvents(signature, tx);
+      await this.refresh(touched, slot);
+      this.store.setCursor(signature, slot);
+      processed++;
+    }
+    return processed;
+  }
+
+  // Backfill once, then poll for new transactions until `signal` aborts
+  async run(intervalMs: number, signal?: AbortSignal) {
+    if (!this.store.getCursor()) await this.backfill();
+    while (!signal?.aborted) {
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error(`Indexer sync failed: ${toError(error).message}`);
+      }
+      // Rejects as soon as `signal` aborts, ending the loop without waiting out the interval
+      await sleep(intervalMs, undefined, { signal }).catch(() => undefined);
+    }
+  }
+
+  // Signatures newer than the cursor, oldest first
+  private async newSignatures() {
+    const cursor = this.store.getCursor();
+    const limit = this.options.historyLimit ?? Infinity;
+    const found: { signature: string; slot: number }[] = [];
+    let before: string | undefined;
+
+    while (found.length < limit) {
+      const page = await this.connection.getSignaturesForAddress(
+        this.programId,
+        { before, until: cursor?.signature, limit: 1000 },
+        "confirmed"
+      );
+      found.push(...page.map((s) => ({ signature: s.signature, slot: s.slot })));
+      if (page.length < 1000) break;
+      before = page[page.length - 1].signature;
+    }
+    return found.slice(0, limit).reverse();
+  }
+
+  // Store one event per tracked instruction, including those other programs invoked; returns
+  // the domains they touched
+  private recordEvents(signature: string, tx: VersionedTransactionResponse) {
+    const message = tx.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    const touched: PublicKey[] = [];
+    const logs = logsByInstruction(tx.meta?.logMessages ?? []);
+    const inner = new Map((tx.meta?.innerInstructions ?? []).map((set) => [set.index, set.instructions]));
+
+    // Each top-level instruction followed by the ones it invoked, in execution order
+    const instructions = message.compiledInstructions.flatMap((ix, top) => [
+      { top, programIdIndex: ix.programIdIndex, accounts: ix.accountKeyIndexes, data: ix.data },
+      ...(inner.get(top) ?? []).map((ix) => ({
+        top,
+        programIdIndex: ix.programIdIndex,
+        accounts: ix.accounts,
+        data: anchor.utils.bytes.bs58.decode(ix.data),
+      })),
+    ]);
+
+    instructions.forEach((ix, index) => {
+      if (!keys.get(ix.programIdIndex)?.equals(this.programId)) return;
+
+      let decoded: DecodedInstruction;
+      try {
+        decoded = decodeInstruction(ix.data);
+      } catch {
+        return;
+      }
+      if (!TRACKED.has(decoded.name)) return;
+
+      const domain = keys.get(ix.accounts[0])!;
+      touched.push(domain);
+      this.store.insertEvent({
+        signature,
+        index,
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? null,
+        kind: decoded.name,
+        domain: domain.toBase58(),
+        args: argsToJson(decoded.args),
+        ...outcomeOf(parseEventLogs(logs[ix.top] ?? [], this.programId), domain),
+      });
+    });
+    return touched;
+  }
+
+  // Re-read touched domains so the table holds their latest state; released ones are dropped
+  private async refresh(domains: PublicKey[], slot: number) {
+    if (domains.length === 0) return;
+    const infos = await this.connection.getMultipleAccountsInfo(domains, "confirmed");
+    this.store.transaction(() => {
+      infos.forEach((info, i) => {
+        if (info) this.store.upsertDomain(domains[i], decodeDomain(info.data), slot);
+        else this.store.deleteDomain(domains[i], slot);
+      });
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import idl from "../target/idl/carv_domain.json";
+import { DomainIndexer } from "./indexer";
+import { createServer } from "./server";
+import { DomainStore } from "./store";
+
+// RPC_URL      cluster to follow (default localnet)
+// PROGRAM_ID   program to index (default: address in the IDL)
+// DB_PATH      SQLite file (default carv-domains.db)
+// PORT         HTTP port (default 8080)
+// POLL_MS      delay between syncs (default 5000)
+const env = process.env;
+
+async function main() {
+  const connection = new Connection(env.RPC_URL ?? "http://127.0.0.1:8899", "confirmed");
+  const programId = new PublicKey(env.PROGRAM_ID ?? idl.address);
+  const store = new DomainStore(env.DB_PATH ?? "carv-domains.db");
+  const indexer = new DomainIndexer(connection, programId, store);
+  const port = Number(env.PORT ?? 8080);
+
+  const server = createServer(store).listen(port, () => {
+    console.log(`Indexing ${programId.toBase58()}, serving on http://localhost:${port}`);
+  });
+
+  const stop = new AbortController();
+  process.once("SIGINT", () => {
+    stop.abort();
+    server.close();
+  });
+
+  await indexer.run(Number(env.POLL_MS ?? 5000), stop.signal);
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import BN from "bn.js";
+import * as http from "http";
+import { getDomainStatus } from "../client/lifecycle";
+import { InvalidNameError, normalizeName, validateName } from "../client/names";
+import { toError } from "../client/transaction";
+import { DomainRow, DomainStore, EventRow } from "./store";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const MAX_LIMIT = 100;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function domainToJson(row: DomainRow, now: number) {
+  return { ...row, status: getDomainStatus({ expires: new BN(row.expires) }, now) };
+}
+
+function eventToJson(row: EventRow) {
+  return { ...row, args: JSON.parse(row.args) };
+}
+
+function parseCount(value: string | null, fallback: number, max: number) {
+  if (value === null) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > max) {
+    throw new HttpError(400, `Expected a whole number between 1 and ${max}, got ${value}`);
+  }
+  return n;
+}
+
+function lookupName(store: DomainStore, input: string) {
+  let name: string;
+  try {
+    name = validateName(normalizeName(decodeURIComponent(input)));
+  } catch (error) {
+    if (error instanceof InvalidNameError) throw new HttpError(400, error.message);
+    if (error instanceof URIError) throw new HttpError(400, `${input} is not a valid URL-encoded name`);
+    throw error;
+  }
+  const row = store.findByName(name);
+  if (!row) throw new HttpError(404, `${name}.carv is not indexed`);
+  return row;
+}
+
+// Route a GET request to a JSON body
+function route(store: DomainStore, url: URL, now: number): unknown {
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (parts.length === 1 && parts[0] === "health") {
+    return { ok: true, cursor: store.getCursor() };
+  }
+  if (parts.length === 2 && parts[0] === "domains") {
+    return domainToJson(lookupName(store, parts[1]), now);
+  }
+  if (parts.length === 3 && parts[0] === "domains" && parts[2] === "history") {
+    return store.history(lookupName(store, parts[1]).address).map(eventToJson);
+  }
+  if (parts.length === 3 && parts[0] === "owners" && parts[2] === "domains") {
+    return store.findByOwner(parts[1]).map((row) => domainToJson(row, now));
+  }
+  if (parts.length === 1 && parts[0] === "expiring") {
+    const days = parseCount(url.searchParams.get("days"), 30, 3650);
+    return store.findExpiring(now, now + days * DAY_SECONDS).map((row) => domainToJson(row, now));
+  }
+  if (parts.length === 1 && parts[0] === "recent") {
+    const limit = parseCount(url.searchParams.get("limit"), 20, MAX_LIMIT);
+    return store.findRecent(limit).map((row) => domainToJson(row, now));
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+// Read-only JSON API over the indexed domains
+export function createServer(store: DomainStore) {
+  return http.createServer((req, res) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new HttpError(405, `${req.method} is not supported`);
+      const url = new URL(req.url ?? "/", "http://localhost");
+      body = route(store, url, Math.floor(Date.now() / 1000));
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: toError(error).message };
+    }
+    res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(JSON.stringify(body));
+  });
+}
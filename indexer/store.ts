@@ -0,0 +1,225 @@
+import Database from "better-sqlite3";
+import { PublicKey } from "@solana/web3.js";
+import { Domain } from "../client/codec";
+
+// One row per Domain account, mirroring its latest on-chain state
+export interface DomainRow {
+  address: string;
+  name: string;
+  owner: string;
+  registered: number;
+  expires: number;
+  active: boolean;
+  data: string;
+  slot: number;
+}
+
+// One row per indexed program instruction that changed a domain
+export interface EventRow {
+  signature: string;
+  // Position in the transaction, counting invoked instructions right after their caller
+  index: number;
+  slot: number;
+  blockTime: number | null;
+  kind: string;
+  domain: string;
+  // Instruction arguments as JSON (new owner, data, years, ...)
+  args: string;
+  // Who paid and the expiry afterwards, from the event the instruction emitted; null if it has none
+  payer: string | null;
+  expires: number | null;
+}
+
+// Newest indexed transaction; the next sync starts after it
+export interface Cursor {
+  signature: string;
+  slot: number;
+}
+
+// Rows as SQLite returns them, before conversion to DomainRow and EventRow
+type DomainTableRow = Omit<DomainRow, "active"> & { active: 0 | 1 };
+
+interface EventTableRow {
+  signature: string;
+  index: number;
+  slot: number;
+  block_time: number | null;
+  kind: string;
+  domain: string;
+  args: string;
+  payer: string | null;
+  expires: number | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS domains (
+    address TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    registered INTEGER NOT NULL,
+    expires INTEGER NOT NULL,
+    active INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    slot INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS domains_name ON domains (name);
+  CREATE INDEX IF NOT EXISTS domains_owner ON domains (owner);
+  CREATE INDEX IF NOT EXISTS domains_expires ON domains (expires);
+  CREATE INDEX IF NOT EXISTS domains_registered ON domains (registered);
+
+  CREATE TABLE IF NOT EXISTS events (
+    signature TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time INTEGER,
+    kind TEXT NOT NULL,
+    domain TEXT NOT NULL,
+    args TEXT NOT NULL,
+    payer TEXT,
+    expires INTEGER,
+    PRIMARY KEY (signature, "index")
+  );
+  CREATE INDEX IF NOT EXISTS events_domain ON events (domain, slot);
+
+  CREATE TABLE IF NOT EXISTS cursor (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    signature TEXT NOT NULL,
+    slot INTEGER NOT NULL
+  );
+`;
+
+// Columns added since the first release, for databases created before them
+const ADDED_COLUMNS = [
+  { table: "events", column: "payer", type: "TEXT" },
+  { table: "events", column: "expires", type: "INTEGER" },
+];
+
+function toDomainRow(row: DomainTableRow): DomainRow {
+  return { ...row, active: row.active === 1 };
+}
+
+function toEventRow(row: EventTableRow): EventRow {
+  return {
+    signature: row.signature,
+    index: row.index,
+    slot: row.slot,
+    blockTime: row.block_time,
+    kind: row.kind,
+    domain: row.domain,
+    args: row.args,
+    payer: row.payer,
+    expires: row.expires,
+  };
+}
+
+// SQLite-backed state of the indexer; pass ":memory:" for tests
+export class DomainStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+    for (const { table, column, type } of ADDED_COLUMNS) {
+      const columns = this.db.prepare<[], { name: string }>(`PRAGMA table_info(${table})`).all();
+      if (!columns.some((c) => c.name === column)) this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Run `fn` in one transaction so a crash never leaves half a batch
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  upsertDomain(address: PublicKey, domain: Domain, slot: number) {
+    this.db
+      .prepare<DomainTableRow>(
+        `INSERT INTO domains (address, name, owner, registered, expires, active, data, slot)
+         VALUES (@address, @name, @owner, @registered, @expires, @active, @data, @slot)
+         ON CONFLICT (address) DO UPDATE SET
+           name = excluded.name, owner = excluded.owner, registered = excluded.registered,
+           expires = excluded.expires, active = excluded.active, data = excluded.data, slot = excluded.slot
+         WHERE excluded.slot >= domains.slot`
+      )
+      .run({
+        address: address.toBase58(),
+        name: domain.name,
+        owner: domain.owner.toBase58(),
+        registered: domain.registered.toNumber(),
+        expires: domain.expires.toNumber(),
+        active: domain.active ? 1 : 0,
+        data: domain.data,
+        slot,
+      });
+  }
+
+  // Forget a released domain, unless a newer slot already re-registered it
+  deleteDomain(address: PublicKey, slot: number) {
+    this.db
+      .prepare<[string, number]>("DELETE FROM domains WHERE address = ? AND slot <= ?")
+      .run(address.toBase58(), slot);
+  }
+
+  insertEvent(event: EventRow) {
+    this.db
+      .prepare<EventRow>(
+        `INSERT OR IGNORE INTO events (signature, "index", slot, block_time, kind, domain, args, payer, expires)
+         VALUES (@signature, @index, @slot, @blockTime, @kind, @domain, @args, @payer, @expires)`
+      )
+      .run(event);
+  }
+
+  getCursor(): Cursor | null {
+    return this.db.prepare<[], Cursor>(`SELECT signature, slot FROM cursor WHERE id = 0`).get() ?? null;
+  }
+
+  setCursor(signature: string, slot: number) {
+    this.db
+      .prepare<[string, number]>(
+        `INSERT INTO cursor (id, signature, slot) VALUES (0, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET signature = excluded.signature, slot = excluded.slot`
+      )
+      .run(signature, slot);
+  }
+
+  findByName(name: string): DomainRow | null {
+    const row = this.db.prepare<[string], DomainTableRow>(`SELECT * FROM domains WHERE name = ?`).get(name);
+    return row ? toDomainRow(row) : null;
+  }
+
+  findByOwner(owner: string): DomainRow[] {
+    return this.db
+      .prepare<[string], DomainTableRow>(`SELECT * FROM domains WHERE owner = ? ORDER BY name`)
+      .all(owner)
+      .map(toDomainRow);
+  }
+
+  // Domains whose expiry falls in [from, to)
+  findExpiring(from: number, to: number): DomainRow[] {
+    return this.db
+      .prepare<[number, number], DomainTableRow>(
+        `SELECT * FROM domains WHERE expires >= ? AND expires < ? ORDER BY expires`
+      )
+      .all(from, to)
+      .map(toDomainRow);
+  }
+
+  findRecent(limit: number): DomainRow[] {
+    return this.db
+      .prepare<[number], DomainTableRow>(`SELECT * FROM domains ORDER BY registered DESC LIMIT ?`)
+      .all(limit)
+      .map(toDomainRow);
+  }
+
+  // Oldest first; rowid keeps the order events were indexed in within a slot
+  history(address: string): EventRow[] {
+    return this.db
+      .prepare<[string], EventTableRow>(`SELECT * FROM events WHERE domain = ? ORDER BY slot, rowid`)
+      .all(address)
+      .map(toEventRow);
+  }
+}
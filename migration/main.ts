@@ -0,0 +1,36 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Connection } from "@solana/web3.js";
+import { CarvDomainClient } from "../client/carvDomainClient";
+import { loadKeypair } from "../client/keypair";
+import { migrateAllDomains } from "./migrate";
+
+// RPC_URL     cluster to migrate (default localnet)
+// KEYPAIR     pays fees and the added rent (default ~/.config/solana/id.json)
+// BATCH_SIZE  names per progress step (default 20)
+const env = process.env;
+
+async function main() {
+  const connection = new Connection(env.RPC_URL ?? "http://127.0.0.1:8899", "confirmed");
+  const keypairFile = env.KEYPAIR ?? "~/.config/solana/id.json";
+  const payer = loadKeypair(keypairFile);
+  if (!payer) throw new Error(`No keypair at ${keypairFile}`);
+  const client = CarvDomainClient.fromWallet(connection, new anchor.Wallet(payer));
+
+  const results = await migrateAllDomains(client, {
+    batchSize: Number(env.BATCH_SIZE ?? 20),
+    onProgress: ({ total, migrated, failed }, batch) => {
+      for (const result of batch) {
+        if (result.error) console.error(`  ${result.name}.carv failed: ${result.error.message}`);
+      }
+      console.log(`[${migrated + failed}/${total}] ${migrated} migrated, ${failed} failed`);
+    },
+  });
+
+  if (results.length === 0) console.log("Every domain already uses the current layout");
+  process.exitCode = results.some((r) => r.error) ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
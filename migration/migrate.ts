@@ -0,0 +1,36 @@
+import { BatchResult } from "../client/batch";
+import { CarvDomainClient } from "../client/carvDomainClient";
+
+export interface MigrationProgress {
+  total: number;
+  migrated: number;
+  failed: number;
+}
+
+export interface MigrationOptions {
+  // Accounts handed to migrateOutdated at once; it packs them into as few transactions as fit (default 20)
+  batchSize?: number;
+  // Called after every batch with the running totals and that batch's results
+  onProgress?: (progress: MigrationProgress, batch: BatchResult[]) => void;
+}
+
+// Migrate every Domain still stored in an older layout. The client's wallet pays the fees
+// and the rent of the added bytes. Safe to rerun: migrated names are no longer found.
+export async function migrateAllDomains(client: CarvDomainClient, options: MigrationOptions = {}) {
+  // Addressed as found: legacy names may not map back to their account through today's name rules
+  const outdated = await client.getOutdatedDomains();
+  const batchSize = options.batchSize ?? 20;
+  const progress: MigrationProgress = { total: outdated.length, migrated: 0, failed: 0 };
+  const results: BatchResult[] = [];
+
+  for (let i = 0; i < outdated.length; i += batchSize) {
+    const batch = await client.migrateOutdated(outdated.slice(i, i + batchSize));
+    for (const result of batch) {
+      if (result.error) progress.failed++;
+      else progress.migrated++;
+    }
+    results.push(...batch);
+    options.onProgress?.({ ...progress }, batch);
+  }
+  return results;
+}
@@ -1,159 +1,2117 @@
 use anchor_lang::prelude::*;
+use anchor_lang::solana_program::bpf_loader_upgradeable;
+use anchor_lang::solana_program::hash::hashv;
 use anchor_lang::system_program;
+use anchor_spl::associated_token::AssociatedToken;
+use anchor_spl::token_2022::Token2022;
+use anchor_spl::token_2022_extensions::spl_token_metadata_interface::state::Field;
+use anchor_spl::token_interface::{
+    self, token_metadata_initialize, token_metadata_update_field, Burn, CloseAccount, Mint,
+    MintTo, TokenAccount, TokenMetadataInitialize, TokenMetadataUpdateField,
+};
+use std::str::FromStr;
 
 declare_id!("GxjDdaFVdmnov1PEccT9kt6E7b2i5MLUdTzqvA4d7a2Y");
 
-const DOMAIN_COST: u64 = 20_000_000; // 0.02 SOL
+// Initial yearly prices by name length in bytes; keep in sync with client/pricing.ts
+const PRICE_3_CHARS: u64 = 160_000_000; // 0.16 SOL
+const PRICE_4_CHARS: u64 = 80_000_000; // 0.08 SOL
+const DOMAIN_COST: u64 = 20_000_000; // 0.02 SOL, 5+ characters
 const YEAR_SECONDS: i64 = 31536000; // 1 year
+const MAX_YEARS: u8 = 10;
+const GRACE_SECONDS: i64 = 2592000; // 30 days after expiry, owner-only renewal
+const MAX_RECORD_LEN: usize = 128;
+const MAX_DATA_LEN: usize = 128;
+const MAX_NAME_LEN: usize = 32;
+const NFT_SYMBOL: &str = "CARV";
+// A commitment can be revealed between these ages; keep in sync with client/lifecycle.ts
+const MIN_COMMITMENT_AGE: i64 = 60;
+const MAX_COMMITMENT_AGE: i64 = 86400;
+// Domain layout written by this program version; older accounts must be migrated first.
+// Versions before 2 have no version byte and are told apart by their size.
+const DOMAIN_VERSION: u8 = 2;
+const DOMAIN_SPACE_V0: usize = 8 + 32 + 36 + 8 + 8 + 1 + 132;
+const DOMAIN_SPACE_V1: usize = DOMAIN_SPACE_V0 + 33; // + manager
+const DOMAIN_SPACE: usize = DOMAIN_SPACE_V1 + 1; // + version
+// Anyone may crank_renew a name this close to its expiry; keep in sync with client/lifecycle.ts
+const AUTO_RENEW_WINDOW: i64 = 2592000; // 30 days
 
 #[program]
 pub mod carv_domain {
     use super::*;
 
-        pub fn register(ctx: Context<Register>, name: String) -> Result<()> {
-                require!(name.len() >= 3 && name.len() <= 32, Err::InvalidLen);
-                        require!(
-                                    name.chars().all(|c| c.is_alphanumeric() || c == '-'),
-                                                Err::InvalidChar
-                                                        );
-
-                                                                let domain = &mut ctx.accounts.domain;
-                                                                        let clock = Clock::get()?;
-
-                                                                                domain.owner = ctx.accounts.owner.key();
-                                                                                        domain.name = name;
-                                                                                                domain.registered = clock.unix_timestamp;
-                                                                                                        domain.expires = clock.unix_timestamp + YEAR_SECONDS;
-                                                                                                                domain.active = true;
-
-                                                                                                                        system_program::transfer(
-                                                                                                                                    CpiContext::new(
-                                                                                                                                                    ctx.accounts.system_program.to_account_info(),
-                                                                                                                                                                    system_program::Transfer {
-                                                                                                                                                                                        from: ctx.accounts.owner.to_account_info(),
-                                                                                                                                                                                                            to: ctx.accounts.treasury.to_account_info(),
-                                                                                                                                                                                                                            },
-                                                                                                                                                                                                                                        ),
-                                                                                                                                                                                                                                                    DOMAIN_COST,
-                                                                                                                                                                                                                                                            )?;
-
-                                                                                                                                                                                                                                                                    Ok(())
-                                                                                                                                                                                                                                                                        }
-
-                                                                                                                                                                                                                                                                            pub fn renew(ctx: Context<Renew>) -> Result<()> {
-                                                                                                                                                                                                                                                                                    let domain = &mut ctx.accounts.domain;
-                                                                                                                                                                                                                                                                                            let clock = Clock::get()?;
-
-                                                                                                                                                                                                                                                                                                    require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
-
-                                                                                                                                                                                                                                                                                                            domain.expires = if domain.expires > clock.unix_timestamp {
-                                                                                                                                                                                                                                                                                                                        domain.expires + YEAR_SECONDS
-                                                                                                                                                                                                                                                                                                                                } else {
-                                                                                                                                                                                                                                                                                                                                            clock.unix_timestamp + YEAR_SECONDS
-                                                                                                                                                                                                                                                                                                                                                    };
-                                                                                                                                                                                                                                                                                                                                                            domain.active = true;
-
-                                                                                                                                                                                                                                                                                                                                                                    system_program::transfer(
-                                                                                                                                                                                                                                                                                                                                                                                CpiContext::new(
-                                                                                                                                                                                                                                                                                                                                                                                                ctx.accounts.system_program.to_account_info(),
-                                                                                                                                                                                                                                                                                                                                                                                                                system_program::Transfer {
-                                                                                                                                                                                                                                                                                                                                                                                                                                    from: ctx.accounts.owner.to_account_info(),
-                                                                                                                                                                                                                                                                                                                                                                                                                                                        to: ctx.accounts.treasury.to_account_info(),
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                        },
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    ),
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                DOMAIN_COST,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        )?;
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                Ok(())
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub fn transfer(ctx: Context<Transfer>, new_owner: Pubkey) -> Result<()> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                let domain = &mut ctx.accounts.domain;
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        let clock = Clock::get()?;
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        require!(domain.expires > clock.unix_timestamp, Err::Expired);
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                domain.owner = new_owner;
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        Ok(())
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub fn set_data(ctx: Context<SetData>, data: String) -> Result<()> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        let domain = &mut ctx.accounts.domain;
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                let clock = Clock::get()?;
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                require!(domain.expires > clock.unix_timestamp, Err::Expired);
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        domain.data = data;
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                Ok(())
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    }
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[account]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub struct Domain {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub owner: Pubkey,   // 32
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            pub name: String,    // 36 (4 + 32)
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub registered: i64, // 8
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub expires: i64,    // 8
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub active: bool,    // 1
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            pub data: String,    // 132 (4 + 128)
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[derive(Accounts)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[instruction(name: String)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            pub struct Register<'info> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                #[account(
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        init,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                payer = owner,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        space = 8 + 32 + 36 + 8 + 8 + 1 + 132,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                seeds = [b"domain", name.as_bytes()],
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        bump
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            )]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub domain: Account<'info, Domain>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub owner: Signer<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            /// CHECK: Treasury
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub treasury: AccountInfo<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub system_program: Program<'info, System>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        #[derive(Accounts)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub struct Renew<'info> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub domain: Account<'info, Domain>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub owner: Signer<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            /// CHECK: Treasury
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub treasury: AccountInfo<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub system_program: Program<'info, System>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        #[derive(Accounts)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        pub struct Transfer<'info> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub domain: Account<'info, Domain>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub owner: Signer<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[derive(Accounts)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    pub struct SetData<'info> {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        #[account(mut)]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            pub domain: Account<'info, Domain>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub owner: Signer<'info>,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                }
-
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                #[error_code]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                pub enum Err {
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[msg("Invalid length")]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        InvalidLen,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[msg("Invalid character")]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                InvalidChar,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                    #[msg("Not owner")]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                        NotOwner,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                            #[msg("Expired")]
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                Expired,
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                }
-                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                
+    // One-time setup; the signer becomes the admin authority
+    pub fn initialize_config(ctx: Context<InitializeConfig>, treasury: Pubkey) -> Result<()> {
+        let config = &mut ctx.accounts.config;
+        config.authority = ctx.accounts.authority.key();
+        config.treasury = treasury;
+        config.price_3_chars = PRICE_3_CHARS;
+        config.price_4_chars = PRICE_4_CHARS;
+        config.price_default = DOMAIN_COST;
+        config.paused = false;
+        emit_config(config);
+        Ok(())
+    }
+
+    pub fn set_authority(ctx: Context<UpdateConfig>, new_authority: Pubkey) -> Result<()> {
+        ctx.accounts.config.authority = new_authority;
+        emit_config(&ctx.accounts.config);
+        Ok(())
+    }
+
+    pub fn set_treasury(ctx: Context<UpdateConfig>, treasury: Pubkey) -> Result<()> {
+        ctx.accounts.config.treasury = treasury;
+        emit_config(&ctx.accounts.config);
+        Ok(())
+    }
+
+    pub fn set_prices(
+        ctx: Context<UpdateConfig>,
+        price_3_chars: u64,
+        price_4_chars: u64,
+        price_default: u64,
+    ) -> Result<()> {
+        let config = &mut ctx.accounts.config;
+        config.price_3_chars = price_3_chars;
+        config.price_4_chars = price_4_chars;
+        config.price_default = price_default;
+        emit_config(config);
+        Ok(())
+    }
+
+    // Stops new registrations; renewals stay open so a pause cannot make names lapse
+    pub fn set_paused(ctx: Context<UpdateConfig>, paused: bool) -> Result<()> {
+        ctx.accounts.config.paused = paused;
+        emit_config(&ctx.accounts.config);
+        Ok(())
+    }
+
+    pub fn register(ctx: Context<Register>, name: String, years: u8) -> Result<()> {
+        let accounts = ctx.accounts;
+        register_domain(
+            &mut accounts.domain,
+            &accounts.owner,
+            &accounts.config,
+            &accounts.treasury,
+            &accounts.system_program,
+            name,
+            years,
+        )
+    }
+
+    // First half of a registration that does not reveal the name until it is claimed:
+    // `hash` is sha256(name || owner || salt), see commitment_hash
+    pub fn commit(ctx: Context<Commit>, _hash: [u8; 32]) -> Result<()> {
+        let commitment = &mut ctx.accounts.commitment;
+        commitment.owner = ctx.accounts.owner.key();
+        commitment.created = Clock::get()?.unix_timestamp;
+        Ok(())
+    }
+
+    // Second half: the name only appears in this transaction, at least MIN_COMMITMENT_AGE
+    // after anyone could have seen the hash
+    pub fn register_with_reveal(
+        ctx: Context<RegisterWithReveal>,
+        name: String,
+        years: u8,
+        salt: [u8; 32],
+    ) -> Result<()> {
+        let accounts = ctx.accounts;
+        let now = Clock::get()?.unix_timestamp;
+
+        let hash = commitment_hash(&name, &accounts.owner.key(), &salt);
+        let (expected, _) = Pubkey::find_program_address(&[b"commit", hash.as_ref()], ctx.program_id);
+        require_keys_eq!(accounts.commitment.key(), expected, Err::CommitmentMismatch);
+        require!(
+            now >= accounts.commitment.created + MIN_COMMITMENT_AGE,
+            Err::CommitmentTooNew
+        );
+        require!(
+            now <= accounts.commitment.created + MAX_COMMITMENT_AGE,
+            Err::CommitmentExpired
+        );
+
+        register_domain(
+            &mut accounts.domain,
+            &accounts.owner,
+            &accounts.config,
+            &accounts.treasury,
+            &accounts.system_program,
+            name,
+            years,
+        )
+    }
+
+    // Hands the rent of a commitment that was never revealed back to its owner, once it is
+    // too old to reveal
+    pub fn close_commitment(ctx: Context<CloseCommitment>) -> Result<()> {
+        require!(
+            Clock::get()?.unix_timestamp > ctx.accounts.commitment.created + MAX_COMMITMENT_AGE,
+            Err::CommitmentNotExpired
+        );
+        Ok(())
+    }
+
+    pub fn renew(ctx: Context<Renew>, years: u8) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+        let cost = domain_price(&ctx.accounts.config, &domain.name, years)?;
+
+        let owner = ctx.accounts.owner.key();
+        require!(
+            is_owner(domain, &owner, &ctx.accounts.holder_token),
+            Err::NotOwner
+        );
+        require!(
+            clock.unix_timestamp < domain.expires + GRACE_SECONDS,
+            Err::Expired
+        );
+
+        // Renewing during the grace period still counts from the old expiry
+        let previous_expires = domain.expires;
+        domain.expires += term_seconds(years);
+        domain.active = true;
+        if domain.owner != owner {
+            update_token_expires(
+                domain,
+                &ctx.accounts.mint,
+                ctx.bumps.mint,
+                &ctx.accounts.token_program,
+            )?;
+        }
+
+        emit!(DomainRenewed {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+            payer: ctx.accounts.owner.key(),
+            previous_expires,
+            expires: domain.expires,
+            years,
+            cost,
+        });
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.owner.to_account_info(),
+                    to: ctx.accounts.treasury.to_account_info(),
+                },
+            ),
+            cost,
+        )?;
+
+        Ok(())
+    }
+
+    // Prepay renewals into the owner's vault for this domain; see crank_renew.
+    // For a wrapped name the vault belongs to the token holder.
+    pub fn deposit_renewal(ctx: Context<DepositRenewal>, amount: u64) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let owner = ctx.accounts.owner.key();
+        require!(
+            is_owner(domain, &owner, &ctx.accounts.holder_token),
+            Err::NotOwner
+        );
+        require!(amount > 0, Err::InvalidAmount);
+
+        let vault = &mut ctx.accounts.vault;
+        vault.domain = domain.key();
+        vault.owner = owner;
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.owner.to_account_info(),
+                    to: vault.to_account_info(),
+                },
+            ),
+            amount,
+        )?;
+
+        emit!(RenewalVaultUpdated {
+            domain: vault.domain,
+            owner: vault.owner,
+            balance: vault_balance(&vault.to_account_info())?,
+        });
+        Ok(())
+    }
+
+    // Close the vault, returning its balance and rent; works after a transfer or release too
+    pub fn withdraw_renewal(ctx: Context<WithdrawRenewal>) -> Result<()> {
+        emit!(RenewalVaultUpdated {
+            domain: ctx.accounts.vault.domain,
+            owner: ctx.accounts.vault.owner,
+            balance: 0,
+        });
+        Ok(())
+    }
+
+    // Permissionless: renew for one year from the owner's vault once expiry is near
+    pub fn crank_renew(ctx: Context<CrankRenew>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let vault = ctx.accounts.vault.to_account_info();
+        let clock = Clock::get()?;
+        let cost = domain_price(&ctx.accounts.config, &domain.name, 1)?;
+
+        require!(
+            clock.unix_timestamp >= domain.expires - AUTO_RENEW_WINDOW,
+            Err::RenewTooEarly
+        );
+        require!(
+            clock.unix_timestamp < domain.expires + GRACE_SECONDS,
+            Err::Expired
+        );
+        // Only the current owner's deposits pay; earlier owners keep theirs to withdraw
+        let vault_owner = ctx.accounts.vault.owner;
+        require!(
+            is_owner(domain, &vault_owner, &ctx.accounts.holder_token),
+            Err::NotOwner
+        );
+        require!(vault_balance(&vault)? >= cost, Err::VaultEmpty);
+
+        let previous_expires = domain.expires;
+        domain.expires += term_seconds(1);
+        domain.active = true;
+        if domain.owner != vault_owner {
+            update_token_expires(
+                domain,
+                &ctx.accounts.mint,
+                ctx.bumps.mint,
+                &ctx.accounts.token_program,
+            )?;
+        }
+
+        emit!(DomainRenewed {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+            payer: vault.key(),
+            previous_expires,
+            expires: domain.expires,
+            years: 1,
+            cost,
+        });
+
+        // The vault belongs to this program, so its lamports move without a CPI
+        **vault.try_borrow_mut_lamports()? -= cost;
+        **ctx.accounts.treasury.try_borrow_mut_lamports()? += cost;
+        Ok(())
+    }
+
+    // Anyone may take over a name once its grace period has passed
+    pub fn reclaim(ctx: Context<Reclaim>, years: u8) -> Result<()> {
+        require!(!ctx.accounts.config.paused, Err::Paused);
+
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+        let cost = domain_price(&ctx.accounts.config, &domain.name, years)?;
+
+        require!(
+            clock.unix_timestamp >= domain.expires + GRACE_SECONDS,
+            Err::NotReclaimable
+        );
+
+        let previous_owner = domain.owner;
+        domain.owner = ctx.accounts.owner.key();
+        domain.registered = clock.unix_timestamp;
+        domain.expires = clock.unix_timestamp + term_seconds(years);
+        domain.active = true;
+        domain.data = String::new();
+        domain.manager = None;
+
+        emit!(DomainRegistered {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            previous_owner: Some(previous_owner),
+            owner: domain.owner,
+            payer: ctx.accounts.owner.key(),
+            expires: domain.expires,
+            years,
+            cost,
+        });
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.owner.to_account_info(),
+                    to: ctx.accounts.treasury.to_account_info(),
+                },
+            ),
+            cost,
+        )?;
+
+        Ok(())
+    }
+
+    // Permissionless: flag a name whose expiry has passed as inactive
+    pub fn expire(ctx: Context<Expire>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.expires <= clock.unix_timestamp, Err::NotExpired);
+
+        domain.active = false;
+        emit!(DomainExpired {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+            expires: domain.expires,
+        });
+        Ok(())
+    }
+
+    // Permissionless: rewrite a Domain saved by an older program version in the current layout.
+    // `payer` covers the rent of the added bytes, which the owner gets back on release.
+    pub fn migrate(ctx: Context<Migrate>) -> Result<()> {
+        let info = ctx.accounts.domain.to_account_info();
+        let mut domain = read_domain(&info)?;
+        let from_version = domain.version;
+        require!(from_version < DOMAIN_VERSION, Err::AlreadyMigrated);
+
+        let rent = Rent::get()?.minimum_balance(DOMAIN_SPACE);
+        if rent > info.lamports() {
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.payer.to_account_info(),
+                        to: info.clone(),
+                    },
+                ),
+                rent - info.lamports(),
+            )?;
+        }
+        info.realloc(DOMAIN_SPACE, true)?;
+
+        domain.version = DOMAIN_VERSION;
+        {
+            let mut data = info.try_borrow_mut_data()?;
+            // Shrinking strings leave stale bytes behind; start from a clean account
+            data.fill(0);
+            domain.try_serialize(&mut &mut data[..])?;
+        }
+
+        emit!(DomainMigrated {
+            domain: info.key(),
+            name: domain.name,
+            from_version,
+            to_version: DOMAIN_VERSION,
+        });
+        Ok(())
+    }
+
+    // Give the name up: the Domain account is closed, its rent refunded to the owner and the
+    // name can be registered again. Records and subdomains of this registration stop resolving;
+    // delete them first to recover their rent.
+    pub fn release(ctx: Context<Release>) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        // A new registration must get a later `registered`, or it would revive this one's records
+        require!(clock.unix_timestamp > domain.registered, Err::ReleaseTooSoon);
+        // Stale offers from earlier owners do not block
+        require!(
+            pending_from(&ctx.accounts.pending)? != Some(domain.owner)
+                && listing_seller(&ctx.accounts.listing)? != Some(domain.owner),
+            Err::OfferPending
+        );
+
+        clear_reverse_if_points_to(
+            &ctx.accounts.reverse.to_account_info(),
+            domain.key(),
+            &ctx.accounts.owner.to_account_info(),
+        )?;
+
+        emit!(DomainReleased {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+        });
+        Ok(())
+    }
+
+    pub fn transfer(ctx: Context<Transfer>, new_owner: Pubkey) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        // The old owner's primary name must not keep pointing at a name they gave away
+        clear_reverse_if_points_to(
+            &ctx.accounts.reverse.to_account_info(),
+            domain.key(),
+            &ctx.accounts.owner.to_account_info(),
+        )?;
+
+        emit_transferred(domain, new_owner, ctx.accounts.owner.key(), 0);
+        domain.owner = new_owner;
+        domain.manager = None;
+        Ok(())
+    }
+
+    // Two-step transfer: nothing moves until `new_owner` accepts
+    pub fn propose_transfer(ctx: Context<ProposeTransfer>, new_owner: Pubkey) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        let pending = &mut ctx.accounts.pending;
+        pending.domain = domain.key();
+        pending.from = domain.owner;
+        pending.to = new_owner;
+        pending.created = clock.unix_timestamp;
+
+        emit!(TransferProposed {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            from: pending.from,
+            to: new_owner,
+        });
+        Ok(())
+    }
+
+    pub fn accept_transfer(ctx: Context<AcceptTransfer>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let pending = &ctx.accounts.pending;
+        let clock = Clock::get()?;
+
+        require!(pending.to == ctx.accounts.recipient.key(), Err::NotRecipient);
+        // The name changed hands after the proposal was made
+        require!(pending.from == domain.owner, Err::StaleOffer);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        clear_reverse_if_points_to(
+            &ctx.accounts.reverse.to_account_info(),
+            domain.key(),
+            &ctx.accounts.from.to_account_info(),
+        )?;
+
+        emit_transferred(domain, pending.to, ctx.accounts.recipient.key(), 0);
+        domain.owner = pending.to;
+        domain.manager = None;
+        Ok(())
+    }
+
+    // The proposer can withdraw at any time. A proposal left behind after the name changed
+    // hands can never be accepted, so the current owner may clear it too; the rent still
+    // goes back to the proposer.
+    pub fn cancel_transfer(ctx: Context<CancelTransfer>) -> Result<()> {
+        let pending = &ctx.accounts.pending;
+        let owner = ctx.accounts.domain.owner;
+        let signer = ctx.accounts.owner.key();
+        require!(
+            signer == pending.from || (pending.from != owner && signer == owner),
+            Err::NotOwner
+        );
+
+        emit!(TransferCancelled {
+            domain: pending.domain,
+            from: pending.from,
+            to: pending.to,
+        });
+        Ok(())
+    }
+
+    // Fixed-price sale; anyone paying exactly `price` lamports gets the name
+    pub fn list_domain(ctx: Context<ListDomain>, price: u64) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+        require!(price > 0, Err::InvalidPrice);
+
+        let listing = &mut ctx.accounts.listing;
+        listing.domain = domain.key();
+        listing.seller = domain.owner;
+        listing.price = price;
+        listing.created = clock.unix_timestamp;
+
+        emit!(DomainListed {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            seller: listing.seller,
+            price,
+        });
+        Ok(())
+    }
+
+    // Like cancel_transfer, a listing left behind after the name changed hands can also be
+    // cleared by the current owner; the rent goes back to the seller
+    pub fn delist_domain(ctx: Context<DelistDomain>) -> Result<()> {
+        let listing = &ctx.accounts.listing;
+        let owner = ctx.accounts.domain.owner;
+        let signer = ctx.accounts.owner.key();
+        require!(
+            signer == listing.seller || (listing.seller != owner && signer == owner),
+            Err::NotOwner
+        );
+
+        emit!(DomainDelisted {
+            domain: listing.domain,
+            seller: listing.seller,
+        });
+        Ok(())
+    }
+
+    // `price` must match the listing so a relist at a higher price cannot front-run the buyer
+    pub fn buy_domain(ctx: Context<BuyDomain>, price: u64) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let listing = &ctx.accounts.listing;
+        let clock = Clock::get()?;
+
+        require!(listing.price == price, Err::PriceMismatch);
+        require!(listing.seller == domain.owner, Err::StaleOffer);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.buyer.to_account_info(),
+                    to: ctx.accounts.seller.to_account_info(),
+                },
+            ),
+            price,
+        )?;
+
+        clear_reverse_if_points_to(
+            &ctx.accounts.reverse.to_account_info(),
+            domain.key(),
+            &ctx.accounts.seller.to_account_info(),
+        )?;
+
+        emit_transferred(domain, ctx.accounts.buyer.key(), ctx.accounts.buyer.key(), price);
+        domain.owner = ctx.accounts.buyer.key();
+        domain.manager = None;
+        Ok(())
+    }
+
+    // Owner-only: the manager cannot replace itself
+    pub fn set_manager(ctx: Context<SetManager>, manager: Option<Pubkey>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        domain.manager = manager;
+        emit!(ManagerUpdated {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+            manager,
+        });
+        Ok(())
+    }
+
+    // Mint a 1-of-1 token for the domain; while wrapped the mint holds the domain
+    // and whoever holds the token may renew, fund and edit it, or unwrap it
+    pub fn wrap(ctx: Context<Wrap>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        let domain_key = domain.key();
+        let registered = domain.registered.to_le_bytes();
+        let seeds: &[&[u8]] = &[b"mint", domain_key.as_ref(), &registered, &[ctx.bumps.mint]];
+        let signer = &[seeds];
+        let token_program = ctx.accounts.token_program.to_account_info();
+        let mint = ctx.accounts.mint.to_account_info();
+
+        token_metadata_initialize(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                TokenMetadataInitialize {
+                    token_program_id: token_program.clone(),
+                    metadata: mint.clone(),
+                    update_authority: mint.clone(),
+                    mint: mint.clone(),
+                    mint_authority: mint.clone(),
+                },
+                signer,
+            ),
+            format!("{}.carv", domain.name),
+            NFT_SYMBOL.to_string(),
+            String::new(),
+        )?;
+        token_metadata_update_field(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                TokenMetadataUpdateField {
+                    token_program_id: token_program.clone(),
+                    metadata: mint.clone(),
+                    update_authority: mint.clone(),
+                },
+                signer,
+            ),
+            Field::Key("expires".to_string()),
+            domain.expires.to_string(),
+        )?;
+
+        // The metadata grew the mint account; keep it rent exempt
+        let rent = Rent::get()?.minimum_balance(mint.data_len());
+        if rent > mint.lamports() {
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.owner.to_account_info(),
+                        to: mint.clone(),
+                    },
+                ),
+                rent - mint.lamports(),
+            )?;
+        }
+
+        token_interface::mint_to(
+            CpiContext::new_with_signer(
+                token_program,
+                MintTo {
+                    mint: mint.clone(),
+                    to: ctx.accounts.token.to_account_info(),
+                    authority: mint,
+                },
+                signer,
+            ),
+            1,
+        )?;
+
+        domain.owner = ctx.accounts.mint.key();
+        domain.manager = None;
+        emit!(DomainWrapped {
+            domain: domain_key,
+            name: domain.name.clone(),
+            owner: ctx.accounts.owner.key(),
+            mint: ctx.accounts.mint.key(),
+            expires: domain.expires,
+        });
+        Ok(())
+    }
+
+    // Burn the token and hand the domain to its holder; the mint is closed
+    pub fn unwrap(ctx: Context<Unwrap>) -> Result<()> {
+        let domain = &mut ctx.accounts.domain;
+        let mint_key = ctx.accounts.mint.key();
+
+        require!(domain.owner == mint_key, Err::NotWrapped);
+        require!(ctx.accounts.token.amount == 1, Err::NotOwner);
+
+        let domain_key = domain.key();
+        let registered = domain.registered.to_le_bytes();
+        let seeds: &[&[u8]] = &[b"mint", domain_key.as_ref(), &registered, &[ctx.bumps.mint]];
+        let token_program = ctx.accounts.token_program.to_account_info();
+        let holder = ctx.accounts.holder.to_account_info();
+
+        token_interface::burn(
+            CpiContext::new(
+                token_program.clone(),
+                Burn {
+                    mint: ctx.accounts.mint.to_account_info(),
+                    from: ctx.accounts.token.to_account_info(),
+                    authority: holder.clone(),
+                },
+            ),
+            1,
+        )?;
+        token_interface::close_account(CpiContext::new(
+            token_program.clone(),
+            CloseAccount {
+                account: ctx.accounts.token.to_account_info(),
+                destination: holder.clone(),
+                authority: holder.clone(),
+            },
+        ))?;
+        token_interface::close_account(CpiContext::new_with_signer(
+            token_program,
+            CloseAccount {
+                account: ctx.accounts.mint.to_account_info(),
+                destination: holder.clone(),
+                authority: ctx.accounts.mint.to_account_info(),
+            },
+            &[seeds],
+        ))?;
+
+        domain.owner = holder.key();
+        emit!(DomainUnwrapped {
+            domain: domain_key,
+            name: domain.name.clone(),
+            owner: domain.owner,
+            mint: mint_key,
+        });
+        Ok(())
+    }
+
+    pub fn set_data(ctx: Context<SetData>, data: String) -> Result<()> {
+        require!(data.len() <= MAX_DATA_LEN, Err::InvalidLen);
+
+        let domain = &mut ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(
+            can_edit(domain, &ctx.accounts.authority.key(), &ctx.accounts.holder_token),
+            Err::NotOwner
+        );
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        domain.data = data;
+        emit!(DataUpdated {
+            domain: domain.key(),
+            name: domain.name.clone(),
+            owner: domain.owner,
+            payer: ctx.accounts.authority.key(),
+            expires: domain.expires,
+            data: domain.data.clone(),
+        });
+        Ok(())
+    }
+
+    pub fn set_primary(ctx: Context<SetPrimary>) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(domain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+
+        let reverse = &mut ctx.accounts.reverse;
+        reverse.domain = domain.key();
+        reverse.name = domain.name.clone();
+
+        emit!(PrimaryUpdated {
+            owner: ctx.accounts.owner.key(),
+            domain: Some(domain.key()),
+        });
+        Ok(())
+    }
+
+    pub fn clear_primary(ctx: Context<ClearPrimary>) -> Result<()> {
+        emit!(PrimaryUpdated {
+            owner: ctx.accounts.owner.key(),
+            domain: None,
+        });
+        Ok(())
+    }
+
+    pub fn set_record(ctx: Context<SetRecord>, kind: RecordKind, value: String) -> Result<()> {
+        let domain = &ctx.accounts.domain;
+        let clock = Clock::get()?;
+
+        require!(
+            can_edit(domain, &ctx.accounts.authority.key(), &ctx.accounts.holder_token),
+            Err::NotOwner
+        );
+        require!(domain.expires > clock.unix_timestamp, Err::Expired);
+        require!(validate_record(kind, &value), Err::InvalidRecord);
+
+        let record = &mut ctx.accounts.record;
+        record.domain = domain.key();
+        record.kind = kind;
+        record.value = value;
+        record.domain_registered = domain.registered;
+
+        emit!(RecordUpdated {
+            domain: domain.key(),
+            kind,
+            value: Some(record.value.clone()),
+        });
+        Ok(())
+    }
+
+    pub fn delete_record(ctx: Context<DeleteRecord>, kind: RecordKind) -> Result<()> {
+        require!(
+            can_edit(
+                &ctx.accounts.domain,
+                &ctx.accounts.authority.key(),
+                &ctx.accounts.holder_token
+            ),
+            Err::NotOwner
+        );
+
+        emit!(RecordUpdated {
+            domain: ctx.accounts.domain.key(),
+            kind,
+            value: None,
+        });
+        Ok(())
+    }
+
+    pub fn create_subdomain(
+        ctx: Context<CreateSubdomain>,
+        label: String,
+        owner: Pubkey,
+    ) -> Result<()> {
+        validate_name(&label, 1)?;
+
+        let parent = &ctx.accounts.parent;
+        let clock = Clock::get()?;
+
+        require!(parent.owner == ctx.accounts.parent_owner.key(), Err::NotOwner);
+        require!(parent.expires > clock.unix_timestamp, Err::Expired);
+
+        let subdomain = &mut ctx.accounts.subdomain;
+        subdomain.parent = parent.key();
+        subdomain.owner = owner;
+        subdomain.label = label;
+        subdomain.created = clock.unix_timestamp;
+        subdomain.parent_registered = parent.registered;
+        subdomain.data = String::new();
+        emit_subdomain(subdomain, false);
+        Ok(())
+    }
+
+    pub fn set_subdomain_data(ctx: Context<UpdateSubdomain>, data: String) -> Result<()> {
+        require!(data.len() <= MAX_DATA_LEN, Err::InvalidLen);
+
+        let subdomain = &mut ctx.accounts.subdomain;
+        let clock = Clock::get()?;
+
+        require!(subdomain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require_subdomain_live(&ctx.accounts.parent, subdomain, clock.unix_timestamp)?;
+
+        subdomain.data = data;
+        emit_subdomain(subdomain, false);
+        Ok(())
+    }
+
+    pub fn transfer_subdomain(ctx: Context<UpdateSubdomain>, new_owner: Pubkey) -> Result<()> {
+        let subdomain = &mut ctx.accounts.subdomain;
+        let clock = Clock::get()?;
+
+        require!(subdomain.owner == ctx.accounts.owner.key(), Err::NotOwner);
+        require_subdomain_live(&ctx.accounts.parent, subdomain, clock.unix_timestamp)?;
+
+        subdomain.owner = new_owner;
+        emit_subdomain(subdomain, false);
+        Ok(())
+    }
+
+    // Parent owners can always take a subdomain back, even after expiry
+    pub fn delete_subdomain(ctx: Context<DeleteSubdomain>) -> Result<()> {
+        require!(
+            ctx.accounts.parent.owner == ctx.accounts.parent_owner.key(),
+            Err::NotOwner
+        );
+        emit_subdomain(&ctx.accounts.subdomain, true);
+        Ok(())
+    }
+}
+
+// Total price of `years` years for `name`; keep in sync with quotePrice in client/pricing.ts
+fn domain_price(config: &Config, name: &str, years: u8) -> Result<u64> {
+    require!(years >= 1 && years <= MAX_YEARS, Err::InvalidYears);
+    let per_year = match name.len() {
+        3 => config.price_3_chars,
+        4 => config.price_4_chars,
+        _ => config.price_default,
+    };
+    per_year
+        .checked_mul(years as u64)
+        .ok_or_else(|| error!(Err::InvalidYears))
+}
+
+fn emit_config(config: &Account<Config>) {
+    emit!(ConfigUpdated {
+        authority: config.authority,
+        treasury: config.treasury,
+        price_3_chars: config.price_3_chars,
+        price_4_chars: config.price_4_chars,
+        price_default: config.price_default,
+        paused: config.paused,
+    });
+}
+
+// `price` is 0 for gifts and accepted transfers; `payer` signed the instruction
+fn emit_transferred(domain: &Account<Domain>, new_owner: Pubkey, payer: Pubkey, price: u64) {
+    emit!(DomainTransferred {
+        domain: domain.key(),
+        name: domain.name.clone(),
+        previous_owner: domain.owner,
+        owner: new_owner,
+        payer,
+        expires: domain.expires,
+        price,
+    });
+}
+
+fn emit_subdomain(subdomain: &Account<Subdomain>, deleted: bool) {
+    emit!(SubdomainUpdated {
+        parent: subdomain.parent,
+        subdomain: subdomain.key(),
+        label: subdomain.label.clone(),
+        owner: subdomain.owner,
+        data: subdomain.data.clone(),
+        deleted,
+    });
+}
+
+// The signer owns the domain outright or, while it is wrapped, holds its token
+fn is_owner(
+    domain: &Domain,
+    signer: &Pubkey,
+    holder_token: &Option<Box<InterfaceAccount<TokenAccount>>>,
+) -> bool {
+    domain.owner == *signer
+        || holder_token.as_ref().map_or(false, |token| {
+            token.mint == domain.owner && token.owner == *signer && token.amount == 1
+        })
+}
+
+// Data and records may be edited by the owner or the delegated manager
+fn can_edit(
+    domain: &Domain,
+    signer: &Pubkey,
+    holder_token: &Option<Box<InterfaceAccount<TokenAccount>>>,
+) -> bool {
+    is_owner(domain, signer, holder_token) || domain.manager == Some(*signer)
+}
+
+// Keep the token metadata's `expires`, set by wrap, in step with a renewal.
+// The value keeps its length until the year 2286, so the mint needs no extra rent.
+fn update_token_expires<'info>(
+    domain: &Account<'info, Domain>,
+    mint: &Option<Box<InterfaceAccount<'info, Mint>>>,
+    mint_bump: Option<u8>,
+    token_program: &Option<Program<'info, Token2022>>,
+) -> Result<()> {
+    let (Some(mint), Some(bump), Some(token_program)) = (mint, mint_bump, token_program) else {
+        return err!(Err::MintRequired);
+    };
+    let domain_key = domain.key();
+    let registered = domain.registered.to_le_bytes();
+    let seeds: &[&[u8]] = &[b"mint", domain_key.as_ref(), &registered, &[bump]];
+    let mint = mint.to_account_info();
+    let token_program = token_program.to_account_info();
+
+    token_metadata_update_field(
+        CpiContext::new_with_signer(
+            token_program.clone(),
+            TokenMetadataUpdateField {
+                token_program_id: token_program,
+                metadata: mint.clone(),
+                update_authority: mint,
+            },
+            &[seeds],
+        ),
+        Field::Key("expires".to_string()),
+        domain.expires.to_string(),
+    )
+}
+
+fn term_seconds(years: u8) -> i64 {
+    YEAR_SECONDS * years as i64
+}
+
+// A subdomain dies with its parent's expiry or reclaim by someone else
+fn require_subdomain_live(parent: &Domain, subdomain: &Subdomain, now: i64) -> Result<()> {
+    require!(parent.expires > now, Err::Expired);
+    require!(
+        parent.registered == subdomain.parent_registered,
+        Err::Expired
+    );
+    Ok(())
+}
+
+// Canonical names only: ASCII a-z, 0-9 and single inner hyphens.
+// Keep in sync with validateName in client/names.ts
+fn validate_name(name: &str, min_len: usize) -> Result<()> {
+    require!(
+        name.chars()
+            .all(|c| c.is_ascii_lowercase() || c.is_ascii_digit() || c == '-'),
+        Err::InvalidChar
+    );
+    let len = name.chars().count();
+    require!(len >= min_len && len <= MAX_NAME_LEN, Err::InvalidLen);
+    require!(
+        !name.starts_with('-') && !name.ends_with('-') && !name.contains("--"),
+        Err::InvalidHyphen
+    );
+    Ok(())
+}
+
+fn is_base58(s: &str) -> bool {
+    s.chars()
+        .all(|c| c.is_ascii_alphanumeric() && !matches!(c, '0' | 'O' | 'I' | 'l'))
+}
+
+fn is_url(s: &str) -> bool {
+    (s.starts_with("https://") || s.starts_with("http://"))
+        && s.len() > "https://".len()
+        && !s.chars().any(|c| c.is_whitespace() || c.is_control())
+}
+
+// Keep in sync with validateRecord in client/records.ts
+fn validate_record(kind: RecordKind, value: &str) -> bool {
+    if value.is_empty() || value.len() > MAX_RECORD_LEN {
+        return false;
+    }
+    match kind {
+        RecordKind::Sol => Pubkey::from_str(value).is_ok(),
+        RecordKind::Eth => {
+            value.len() == 42
+                && value.starts_with("0x")
+                && value[2..].chars().all(|c| c.is_ascii_hexdigit())
+        }
+        RecordKind::Btc => {
+            if let Some(rest) = value.strip_prefix("bc1") {
+                (11..=87).contains(&rest.len())
+                    && rest.chars().all(|c| c.is_ascii_lowercase() || c.is_ascii_digit())
+            } else {
+                (26..=35).contains(&value.len())
+                    && (value.starts_with('1') || value.starts_with('3'))
+                    && is_base58(value)
+            }
+        }
+        RecordKind::Url => is_url(value),
+        RecordKind::Avatar => {
+            is_url(value) || value.starts_with("ipfs://") || value.starts_with("ar://")
+        }
+        RecordKind::Twitter => {
+            value.len() <= 15 && value.chars().all(|c| c.is_ascii_alphanumeric() || c == '_')
+        }
+        RecordKind::Github => {
+            value.len() <= 39
+                && !value.starts_with('-')
+                && value.chars().all(|c| c.is_ascii_alphanumeric() || c == '-')
+        }
+        RecordKind::Email => match value.split_once('@') {
+            Some((local, host)) => {
+                !local.is_empty()
+                    && host.contains('.')
+                    && !host.starts_with('.')
+                    && !host.ends_with('.')
+                    && !host.contains('@')
+                    && value.chars().all(|c| c.is_ascii_graphic())
+            }
+            None => false,
+        },
+        RecordKind::Ipfs => {
+            (value.len() == 46 && value.starts_with("Qm") && is_base58(value))
+                || (value.len() >= 59
+                    && value.starts_with('b')
+                    && value
+                        .chars()
+                        .all(|c| c.is_ascii_lowercase() || ('2'..='7').contains(&c)))
+        }
+        RecordKind::Arweave => {
+            value.len() == 43
+                && value
+                    .chars()
+                    .all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '_')
+        }
+    }
+}
+
+// Close the reverse record if it names `domain`, refunding rent to `receiver`
+fn clear_reverse_if_points_to<'info>(
+    reverse: &AccountInfo<'info>,
+    domain: Pubkey,
+    receiver: &AccountInfo<'info>,
+) -> Result<()> {
+    if reverse.owner != &crate::ID || reverse.data_is_empty() {
+        return Ok(());
+    }
+
+    let record = ReverseRecord::try_deserialize(&mut &reverse.data.borrow()[..])?;
+    if record.domain != domain {
+        return Ok(());
+    }
+
+    **receiver.try_borrow_mut_lamports()? += reverse.lamports();
+    **reverse.try_borrow_mut_lamports()? = 0;
+    reverse.assign(&system_program::ID);
+    reverse.realloc(0, false)?;
+    Ok(())
+}
+
+// Instructions that write a Domain need it in the current layout, or the write would not fit
+fn is_current(domain: &Account<Domain>) -> bool {
+    domain.version == DOMAIN_VERSION && domain.to_account_info().data_len() == DOMAIN_SPACE
+}
+
+fn read<T: AnchorDeserialize>(buf: &mut &[u8]) -> Result<T> {
+    T::deserialize(buf).map_err(|_| error!(ErrorCode::AccountDidNotDeserialize))
+}
+
+// A Domain in any layout; keep in sync with decodeDomain in client/codec.ts.
+// v0 predates `manager`, v1 added it, v2 added `version`.
+fn read_domain(info: &AccountInfo) -> Result<Domain> {
+    let data = info.try_borrow_data()?;
+    require!(
+        data.len() >= 8 && data[..8] == Domain::DISCRIMINATOR[..],
+        ErrorCode::AccountDiscriminatorMismatch
+    );
+
+    let body = &mut &data[8..];
+    let mut domain = Domain {
+        owner: read(body)?,
+        name: read(body)?,
+        registered: read(body)?,
+        expires: read(body)?,
+        active: read(body)?,
+        data: read(body)?,
+        manager: None,
+        version: 0,
+    };
+    match data.len() {
+        DOMAIN_SPACE_V0 => {}
+        DOMAIN_SPACE_V1 => {
+            domain.manager = read(body)?;
+            domain.version = 1;
+        }
+        _ => {
+            domain.manager = read(body)?;
+            domain.version = read(body)?;
+        }
+    }
+    Ok(domain)
+}
+
+// Lamports in a renewal vault above its rent-exempt minimum
+fn vault_balance(vault: &AccountInfo) -> Result<u64> {
+    let rent = Rent::get()?.minimum_balance(vault.data_len());
+    Ok(vault.lamports().saturating_sub(rent))
+}
+
+// Shared by register and register_with_reveal once the Domain account exists
+fn register_domain<'info>(
+    domain: &mut Account<'info, Domain>,
+    owner: &Signer<'info>,
+    config: &Account<'info, Config>,
+    treasury: &AccountInfo<'info>,
+    system_program: &Program<'info, System>,
+    name: String,
+    years: u8,
+) -> Result<()> {
+    validate_name(&name, 3)?;
+    require!(!config.paused, Err::Paused);
+
+    let cost = domain_price(config, &name, years)?;
+    let clock = Clock::get()?;
+
+    domain.owner = owner.key();
+    domain.name = name;
+    domain.registered = clock.unix_timestamp;
+    domain.expires = clock.unix_timestamp + term_seconds(years);
+    domain.active = true;
+    domain.manager = None;
+    domain.version = DOMAIN_VERSION;
+
+    emit!(DomainRegistered {
+        domain: domain.key(),
+        name: domain.name.clone(),
+        previous_owner: None,
+        owner: domain.owner,
+        payer: owner.key(),
+        expires: domain.expires,
+        years,
+        cost,
+    });
+
+    system_program::transfer(
+        CpiContext::new(
+            system_program.to_account_info(),
+            system_program::Transfer {
+                from: owner.to_account_info(),
+                to: treasury.clone(),
+            },
+        ),
+        cost,
+    )
+}
+
+// Binds a commitment to the name, the wallet that may reveal it and a secret salt
+fn commitment_hash(name: &str, owner: &Pubkey, salt: &[u8; 32]) -> [u8; 32] {
+    hashv(&[name.as_bytes(), owner.as_ref(), salt]).to_bytes()
+}
+
+// Proposer of the pending transfer at `account`, if there is one
+fn pending_from(account: &AccountInfo) -> Result<Option<Pubkey>> {
+    if account.owner != &crate::ID || account.data_is_empty() {
+        return Ok(None);
+    }
+    Ok(Some(PendingTransfer::try_deserialize(&mut &account.data.borrow()[..])?.from))
+}
+
+// Seller of the listing at `account`, if there is one
+fn listing_seller(account: &AccountInfo) -> Result<Option<Pubkey>> {
+    if account.owner != &crate::ID || account.data_is_empty() {
+        return Ok(None);
+    }
+    Ok(Some(Listing::try_deserialize(&mut &account.data.borrow()[..])?.seller))
+}
+
+// Hidden registration intent, seeded by its hash
+#[account]
+pub struct Commitment {
+    pub owner: Pubkey, // 32
+    pub created: i64,  // 8
+}
+
+// Prepaid renewals, seeded by the domain and the owner who deposited them
+#[account]
+pub struct RenewalVault {
+    pub domain: Pubkey, // 32
+    pub owner: Pubkey,  // 32
+}
+
+// Transfer waiting for the recipient, seeded by the domain
+#[account]
+pub struct PendingTransfer {
+    pub domain: Pubkey, // 32
+    pub from: Pubkey,   // 32
+    pub to: Pubkey,     // 32
+    pub created: i64,   // 8
+}
+
+// Fixed-price sale of a domain, seeded by the domain
+#[account]
+pub struct Listing {
+    pub domain: Pubkey, // 32
+    pub seller: Pubkey, // 32
+    pub price: u64,     // 8, lamports
+    pub created: i64,   // 8
+}
+
+// Program-wide settings, a single PDA at seeds [b"config"]
+#[account]
+pub struct Config {
+    pub authority: Pubkey,   // 32
+    pub treasury: Pubkey,    // 32
+    pub price_3_chars: u64,  // 8, lamports per year
+    pub price_4_chars: u64,  // 8
+    pub price_default: u64,  // 8
+    pub paused: bool,        // 1
+}
+
+#[account]
+pub struct Domain {
+    pub owner: Pubkey,   // 32
+    pub name: String,    // 36 (4 + 32)
+    pub registered: i64, // 8
+    pub expires: i64,    // 8
+    pub active: bool,    // 1
+    pub data: String,    // 132 (4 + 128)
+    // May edit data and records; cleared whenever the owner changes
+    pub manager: Option<Pubkey>, // 33 (1 + 32)
+    // Layout version (DOMAIN_VERSION); new fields go after it and bump it
+    pub version: u8, // 1
+}
+
+// One typed record per (domain, kind)
+#[account]
+pub struct DomainRecord {
+    pub domain: Pubkey,   // 32
+    pub kind: RecordKind, // 1
+    pub value: String,    // 132 (4 + 128)
+    // Records set before the domain was reclaimed are ignored
+    pub domain_registered: i64, // 8
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub enum RecordKind {
+    Sol,
+    Eth,
+    Btc,
+    Url,
+    Avatar,
+    Twitter,
+    Github,
+    Email,
+    Ipfs,
+    Arweave,
+}
+
+// `label.parent.carv`, valid only while the parent has not expired
+#[account]
+pub struct Subdomain {
+    pub parent: Pubkey, // 32
+    pub owner: Pubkey,  // 32
+    pub label: String,  // 36 (4 + 32)
+    pub created: i64,   // 8
+    pub parent_registered: i64, // 8
+    pub data: String,   // 132 (4 + 128)
+}
+
+// Primary name of a wallet, seeded by the owner
+#[account]
+pub struct ReverseRecord {
+    pub domain: Pubkey, // 32
+    pub name: String,   // 36 (4 + 32)
+}
+
+// Events; every instruction that changes state emits one.
+// Keep in sync with client/events.ts
+
+#[event]
+pub struct ConfigUpdated {
+    pub authority: Pubkey,
+    pub treasury: Pubkey,
+    pub price_3_chars: u64,
+    pub price_4_chars: u64,
+    pub price_default: u64,
+    pub paused: bool,
+}
+
+// Emitted by register and reclaim; `previous_owner` is set for reclaims
+#[event]
+pub struct DomainRegistered {
+    pub domain: Pubkey,
+    pub name: String,
+    pub previous_owner: Option<Pubkey>,
+    pub owner: Pubkey,
+    pub payer: Pubkey,
+    pub expires: i64,
+    pub years: u8,
+    pub cost: u64,
+}
+
+#[event]
+pub struct DomainRenewed {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    pub payer: Pubkey,
+    pub previous_expires: i64,
+    pub expires: i64,
+    pub years: u8,
+    pub cost: u64,
+}
+
+// Emitted by deposit_renewal and withdraw_renewal; `balance` excludes the vault's rent
+#[event]
+pub struct RenewalVaultUpdated {
+    pub domain: Pubkey,
+    pub owner: Pubkey,
+    pub balance: u64,
+}
+
+#[event]
+pub struct DomainExpired {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    pub expires: i64,
+}
+
+#[event]
+pub struct DomainMigrated {
+    pub domain: Pubkey,
+    pub name: String,
+    pub from_version: u8,
+    pub to_version: u8,
+}
+
+#[event]
+pub struct DomainReleased {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+}
+
+// Emitted by transfer, accept_transfer and buy_domain
+#[event]
+pub struct DomainTransferred {
+    pub domain: Pubkey,
+    pub name: String,
+    pub previous_owner: Pubkey,
+    pub owner: Pubkey,
+    pub payer: Pubkey,
+    pub expires: i64,
+    pub price: u64,
+}
+
+#[event]
+pub struct TransferProposed {
+    pub domain: Pubkey,
+    pub name: String,
+    pub from: Pubkey,
+    pub to: Pubkey,
+}
+
+#[event]
+pub struct TransferCancelled {
+    pub domain: Pubkey,
+    pub from: Pubkey,
+    pub to: Pubkey,
+}
+
+#[event]
+pub struct DomainListed {
+    pub domain: Pubkey,
+    pub name: String,
+    pub seller: Pubkey,
+    pub price: u64,
+}
+
+#[event]
+pub struct DomainDelisted {
+    pub domain: Pubkey,
+    pub seller: Pubkey,
+}
+
+#[event]
+pub struct DataUpdated {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    // The owner, token holder or manager who signed
+    pub payer: Pubkey,
+    pub expires: i64,
+    pub data: String,
+}
+
+#[event]
+pub struct DomainWrapped {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    pub mint: Pubkey,
+    pub expires: i64,
+}
+
+// `owner` is the token holder that unwrapped
+#[event]
+pub struct DomainUnwrapped {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    pub mint: Pubkey,
+}
+
+// `manager` is None when the owner revoked it
+#[event]
+pub struct ManagerUpdated {
+    pub domain: Pubkey,
+    pub name: String,
+    pub owner: Pubkey,
+    pub manager: Option<Pubkey>,
+}
+
+// `domain` is None when the primary name was cleared
+#[event]
+pub struct PrimaryUpdated {
+    pub owner: Pubkey,
+    pub domain: Option<Pubkey>,
+}
+
+// `value` is None when the record was deleted
+#[event]
+pub struct RecordUpdated {
+    pub domain: Pubkey,
+    pub kind: RecordKind,
+    pub value: Option<String>,
+}
+
+#[event]
+pub struct SubdomainUpdated {
+    pub parent: Pubkey,
+    pub subdomain: Pubkey,
+    pub label: String,
+    pub owner: Pubkey,
+    pub data: String,
+    pub deleted: bool,
+}
+
+#[derive(Accounts)]
+pub struct InitializeConfig<'info> {
+    #[account(
+        init,
+        payer = authority,
+        space = 8 + 32 + 32 + 8 + 8 + 8 + 1,
+        seeds = [b"config"],
+        bump
+    )]
+    pub config: Account<'info, Config>,
+    #[account(mut)]
+    pub authority: Signer<'info>,
+    // Only the deployer may set the config up, so nobody can claim the fees of a fresh deploy
+    #[account(
+        seeds = [crate::ID.as_ref()],
+        bump,
+        seeds::program = bpf_loader_upgradeable::ID,
+        constraint = program_data.upgrade_authority_address == Some(authority.key())
+            @ Err::NotAuthority
+    )]
+    pub program_data: Account<'info, ProgramData>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateConfig<'info> {
+    #[account(mut, seeds = [b"config"], bump, has_one = authority @ Err::NotAuthority)]
+    pub config: Account<'info, Config>,
+    pub authority: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(name: String)]
+pub struct Register<'info> {
+    #[account(
+        init,
+        payer = owner,
+        space = DOMAIN_SPACE,
+        seeds = [b"domain", name.as_bytes()],
+        bump
+    )]
+    pub domain: Account<'info, Domain>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    #[account(seeds = [b"config"], bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Must be the treasury stored in the config
+    #[account(mut, address = config.treasury @ Err::InvalidTreasury)]
+    pub treasury: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(hash: [u8; 32])]
+pub struct Commit<'info> {
+    #[account(
+        init,
+        payer = owner,
+        space = 8 + 32 + 8,
+        seeds = [b"commit", hash.as_ref()],
+        bump
+    )]
+    pub commitment: Account<'info, Commitment>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(name: String)]
+pub struct RegisterWithReveal<'info> {
+    #[account(
+        init,
+        payer = owner,
+        space = DOMAIN_SPACE,
+        seeds = [b"domain", name.as_bytes()],
+        bump
+    )]
+    pub domain: Account<'info, Domain>,
+    // Checked against the revealed name, owner and salt; its rent goes back to the owner
+    #[account(mut, close = owner)]
+    pub commitment: Account<'info, Commitment>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    #[account(seeds = [b"config"], bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Must be the treasury stored in the config
+    #[account(mut, address = config.treasury @ Err::InvalidTreasury)]
+    pub treasury: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct CloseCommitment<'info> {
+    #[account(mut, has_one = owner @ Err::NotOwner, close = owner)]
+    pub commitment: Account<'info, Commitment>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct Renew<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    #[account(seeds = [b"config"], bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Must be the treasury stored in the config
+    #[account(mut, address = config.treasury @ Err::InvalidTreasury)]
+    pub treasury: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+    // Only for a wrapped name: the signer's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+    // Only for a wrapped name, whose token metadata mirrors the expiry
+    #[account(
+        mut,
+        seeds = [b"mint", domain.key().as_ref(), &domain.registered.to_le_bytes()],
+        bump
+    )]
+    pub mint: Option<Box<InterfaceAccount<'info, Mint>>>,
+    pub token_program: Option<Program<'info, Token2022>>,
+}
+
+#[derive(Accounts)]
+pub struct DepositRenewal<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init_if_needed,
+        payer = owner,
+        space = 8 + 32 + 32,
+        seeds = [b"vault", domain.key().as_ref(), owner.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, RenewalVault>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+    // Only for a wrapped name: the signer's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+}
+
+#[derive(Accounts)]
+pub struct WithdrawRenewal<'info> {
+    /// CHECK: Only seeds the vault; the domain may have been released
+    pub domain: UncheckedAccount<'info>,
+    #[account(
+        mut,
+        close = owner,
+        seeds = [b"vault", domain.key().as_ref(), owner.key().as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, RenewalVault>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CrankRenew<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    // Checked against the current owner, or the token holder of a wrapped name, in crank_renew
+    #[account(
+        mut,
+        seeds = [b"vault", domain.key().as_ref(), vault.owner.as_ref()],
+        bump
+    )]
+    pub vault: Account<'info, RenewalVault>,
+    #[account(seeds = [b"config"], bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Must be the treasury stored in the config
+    #[account(mut, address = config.treasury @ Err::InvalidTreasury)]
+    pub treasury: AccountInfo<'info>,
+    // Only for a wrapped name: the vault owner's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+    #[account(
+        mut,
+        seeds = [b"mint", domain.key().as_ref(), &domain.registered.to_le_bytes()],
+        bump
+    )]
+    pub mint: Option<Box<InterfaceAccount<'info, Mint>>>,
+    pub token_program: Option<Program<'info, Token2022>>,
+}
+
+#[derive(Accounts)]
+pub struct Reclaim<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    #[account(seeds = [b"config"], bump)]
+    pub config: Account<'info, Config>,
+    /// CHECK: Must be the treasury stored in the config
+    #[account(mut, address = config.treasury @ Err::InvalidTreasury)]
+    pub treasury: AccountInfo<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Expire<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+}
+
+#[derive(Accounts)]
+pub struct Migrate<'info> {
+    /// CHECK: A Domain in any layout, parsed by read_domain
+    #[account(mut, owner = crate::ID)]
+    pub domain: UncheckedAccount<'info>,
+    // Anyone; pays the rent of the added bytes
+    #[account(mut)]
+    pub payer: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Release<'info> {
+    // Rent goes back to the owner
+    #[account(mut, close = owner)]
+    pub domain: Account<'info, Domain>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    /// CHECK: Owner's reverse record, may not exist
+    #[account(mut, seeds = [b"reverse", owner.key().as_ref()], bump)]
+    pub reverse: UncheckedAccount<'info>,
+    /// CHECK: Pending transfer of this domain, may not exist
+    #[account(seeds = [b"pending", domain.key().as_ref()], bump)]
+    pub pending: UncheckedAccount<'info>,
+    /// CHECK: Listing of this domain, may not exist
+    #[account(seeds = [b"listing", domain.key().as_ref()], bump)]
+    pub listing: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct Transfer<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    // Must be the owner itself; the manager cannot transfer
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    /// CHECK: Owner's reverse record, may not exist yet
+    #[account(mut, seeds = [b"reverse", owner.key().as_ref()], bump)]
+    pub reverse: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ProposeTransfer<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init,
+        payer = owner,
+        space = 8 + 32 + 32 + 32 + 8,
+        seeds = [b"pending", domain.key().as_ref()],
+        bump
+    )]
+    pub pending: Account<'info, PendingTransfer>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptTransfer<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        seeds = [b"pending", domain.key().as_ref()],
+        bump,
+        has_one = from,
+        close = from
+    )]
+    pub pending: Account<'info, PendingTransfer>,
+    pub recipient: Signer<'info>,
+    /// CHECK: Proposer, receives the rent of the pending account
+    #[account(mut)]
+    pub from: UncheckedAccount<'info>,
+    /// CHECK: Proposer's reverse record, may not exist
+    #[account(mut, seeds = [b"reverse", from.key().as_ref()], bump)]
+    pub reverse: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CancelTransfer<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        seeds = [b"pending", domain.key().as_ref()],
+        bump,
+        has_one = from,
+        close = from
+    )]
+    pub pending: Account<'info, PendingTransfer>,
+    /// CHECK: Proposer, receives the rent of the pending account
+    #[account(mut)]
+    pub from: UncheckedAccount<'info>,
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct ListDomain<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init,
+        payer = owner,
+        space = 8 + 32 + 32 + 8 + 8,
+        seeds = [b"listing", domain.key().as_ref()],
+        bump
+    )]
+    pub listing: Account<'info, Listing>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct DelistDomain<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        seeds = [b"listing", domain.key().as_ref()],
+        bump,
+        has_one = seller,
+        close = seller
+    )]
+    pub listing: Account<'info, Listing>,
+    /// CHECK: Checked against the listing, receives its rent
+    #[account(mut)]
+    pub seller: UncheckedAccount<'info>,
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct BuyDomain<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        seeds = [b"listing", domain.key().as_ref()],
+        bump,
+        has_one = seller,
+        close = seller
+    )]
+    pub listing: Account<'info, Listing>,
+    #[account(mut)]
+    pub buyer: Signer<'info>,
+    /// CHECK: Checked against the listing, receives the payment
+    #[account(mut)]
+    pub seller: UncheckedAccount<'info>,
+    /// CHECK: Seller's reverse record, may not exist
+    #[account(mut, seeds = [b"reverse", seller.key().as_ref()], bump)]
+    pub reverse: UncheckedAccount<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+// Token-2022 mint with its metadata stored in the mint itself.
+// Seeded by `registered` so a reclaimed name never reuses an old token.
+#[derive(Accounts)]
+pub struct Wrap<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init,
+        payer = owner,
+        seeds = [b"mint", domain.key().as_ref(), &domain.registered.to_le_bytes()],
+        bump,
+        mint::decimals = 0,
+        mint::authority = mint,
+        mint::token_program = token_program,
+        extensions::metadata_pointer::authority = mint,
+        extensions::metadata_pointer::metadata_address = mint,
+        extensions::close_authority::authority = mint,
+    )]
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        init_if_needed,
+        payer = owner,
+        associated_token::mint = mint,
+        associated_token::authority = owner,
+        associated_token::token_program = token_program,
+    )]
+    pub token: Box<InterfaceAccount<'info, TokenAccount>>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub token_program: Program<'info, Token2022>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Unwrap<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        seeds = [b"mint", domain.key().as_ref(), &domain.registered.to_le_bytes()],
+        bump
+    )]
+    pub mint: Box<InterfaceAccount<'info, Mint>>,
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = holder,
+        token::token_program = token_program,
+    )]
+    pub token: Box<InterfaceAccount<'info, TokenAccount>>,
+    // Receives the domain and the rent of the mint and token account
+    #[account(mut)]
+    pub holder: Signer<'info>,
+    pub token_program: Program<'info, Token2022>,
+}
+
+#[derive(Accounts)]
+pub struct SetManager<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct SetData<'info> {
+    #[account(mut, constraint = is_current(&domain) @ Err::OutdatedAccount)]
+    pub domain: Account<'info, Domain>,
+    // Owner or manager
+    pub authority: Signer<'info>,
+    // Only for a wrapped name: the signer's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+}
+
+#[derive(Accounts)]
+pub struct SetPrimary<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init_if_needed,
+        payer = owner,
+        space = 8 + 32 + 36,
+        seeds = [b"reverse", owner.key().as_ref()],
+        bump
+    )]
+    pub reverse: Account<'info, ReverseRecord>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ClearPrimary<'info> {
+    #[account(
+        mut,
+        close = owner,
+        seeds = [b"reverse", owner.key().as_ref()],
+        bump
+    )]
+    pub reverse: Account<'info, ReverseRecord>,
+    #[account(mut)]
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(kind: RecordKind)]
+pub struct SetRecord<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        init_if_needed,
+        payer = authority,
+        space = 8 + 32 + 1 + 132 + 8,
+        seeds = [b"record", domain.key().as_ref(), &[kind as u8]],
+        bump
+    )]
+    pub record: Account<'info, DomainRecord>,
+    // Owner or manager; pays the rent
+    #[account(mut)]
+    pub authority: Signer<'info>,
+    pub system_program: Program<'info, System>,
+    // Only for a wrapped name: the signer's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+}
+
+#[derive(Accounts)]
+#[instruction(kind: RecordKind)]
+pub struct DeleteRecord<'info> {
+    pub domain: Account<'info, Domain>,
+    #[account(
+        mut,
+        close = authority,
+        seeds = [b"record", domain.key().as_ref(), &[kind as u8]],
+        bump
+    )]
+    pub record: Account<'info, DomainRecord>,
+    // Owner or manager; receives the rent
+    #[account(mut)]
+    pub authority: Signer<'info>,
+    // Only for a wrapped name: the signer's account holding its token
+    pub holder_token: Option<Box<InterfaceAccount<'info, TokenAccount>>>,
+}
+
+#[derive(Accounts)]
+#[instruction(label: String)]
+pub struct CreateSubdomain<'info> {
+    pub parent: Account<'info, Domain>,
+    #[account(
+        init,
+        payer = parent_owner,
+        space = 8 + 32 + 32 + 36 + 8 + 8 + 132,
+        seeds = [b"subdomain", parent.key().as_ref(), label.as_bytes()],
+        bump
+    )]
+    pub subdomain: Account<'info, Subdomain>,
+    #[account(mut)]
+    pub parent_owner: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateSubdomain<'info> {
+    pub parent: Account<'info, Domain>,
+    #[account(mut, has_one = parent @ Err::InvalidParent)]
+    pub subdomain: Account<'info, Subdomain>,
+    pub owner: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct DeleteSubdomain<'info> {
+    pub parent: Account<'info, Domain>,
+    #[account(mut, close = parent_owner, has_one = parent @ Err::InvalidParent)]
+    pub subdomain: Account<'info, Subdomain>,
+    #[account(mut)]
+    pub parent_owner: Signer<'info>,
+}
+
+#[error_code]
+pub enum Err {
+    #[msg("Invalid length")]
+    InvalidLen,
+    #[msg("Invalid character")]
+    InvalidChar,
+    #[msg("Not owner")]
+    NotOwner,
+    #[msg("Expired")]
+    Expired,
+    #[msg("Invalid record value")]
+    InvalidRecord,
+    #[msg("Subdomain does not belong to this parent")]
+    InvalidParent,
+    #[msg("Name is still active or in its grace period")]
+    NotReclaimable,
+    #[msg("Name has not expired")]
+    NotExpired,
+    #[msg("Years must be between 1 and 10")]
+    InvalidYears,
+    #[msg("Treasury does not match the config")]
+    InvalidTreasury,
+    #[msg("Registrations are paused")]
+    Paused,
+    #[msg("Signer is not the config authority")]
+    NotAuthority,
+    #[msg("Signer is not the recipient of this transfer")]
+    NotRecipient,
+    #[msg("Domain changed owner since this offer was made")]
+    StaleOffer,
+    #[msg("Price must be greater than zero")]
+    InvalidPrice,
+    #[msg("Price does not match the listing")]
+    PriceMismatch,
+    #[msg("Hyphens cannot lead, trail or repeat")]
+    InvalidHyphen,
+    #[msg("Domain is not wrapped")]
+    NotWrapped,
+    #[msg("Cancel the pending transfer or listing first")]
+    OfferPending,
+    #[msg("A domain cannot be released in the second it was registered")]
+    ReleaseTooSoon,
+    #[msg("Commitment does not match this name, owner and salt")]
+    CommitmentMismatch,
+    #[msg("Commitment is too new to reveal")]
+    CommitmentTooNew,
+    #[msg("Commitment is too old to reveal")]
+    CommitmentExpired,
+    #[msg("Amount must be greater than zero")]
+    InvalidAmount,
+    #[msg("Name is not yet within its auto-renew window")]
+    RenewTooEarly,
+    #[msg("Renewal vault cannot cover the renewal")]
+    VaultEmpty,
+    #[msg("Domain uses an older account layout; migrate it first")]
+    OutdatedAccount,
+    #[msg("Domain already uses the current account layout")]
+    AlreadyMigrated,
+    #[msg("A wrapped domain needs its mint and the token program")]
+    MintRequired,
+    #[msg("Commitment can still be revealed")]
+    CommitmentNotExpired,
+}
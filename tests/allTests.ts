@@ -1,480 +1,702 @@
 import * as anchor from "@coral-xyz/anchor";
-import { Program } from "@coral-xyz/anchor";
-import { CarvDomain } from "../target/types/carv_domain";
+import { strict as assert } from "assert";
+import { CarvDomainClient } from "../client/carvDomainClient";
+import { MAX_DATA_LEN } from "../client/codec";
+import { ProgramErrorName } from "../client/errors";
+import { InvalidNameError } from "../client/names";
+import { YEAR_SECONDS } from "../client/lifecycle";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getTokenAccountAddress, TOKEN_2022_PROGRAM_ID } from "../client/pda";
+import { RecordKind } from "../client/records";
+import { expectProgramError, Harness, localHarness, waitFor } from "./harness";
+
+// Runs against the local validator started by `anchor test`.
+// Paths that need the clock to move live in tests/expiry.ts.
+describe("Carv Domain", () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await localHarness();
+  });
+
+  describe("registration", () => {
+    it("registers an active name with a one-year term", async () => {
+      const before = Math.floor(Date.now() / 1000);
+      const name = await h.registeredDomain("test");
+      const after = Math.floor(Date.now() / 1000);
+
+      const domain = await h.fetchDomain(name);
+      assert.equal(domain.name, name);
+      assert.ok(domain.owner.equals(h.wallet));
+      assert.equal(domain.active, true);
+      // The validator clock may lag wall time by a second
+      assert.ok(domain.registered.toNumber() >= before - 1 && domain.registered.toNumber() <= after + 1);
+      assert.equal(domain.expires.sub(domain.registered).toNumber(), YEAR_SECONDS);
+    });
+
+    it("registers several names and keeps them apart", async () => {
+      const names = [h.uniqueName("multi"), h.uniqueName("multi"), h.uniqueName("multi")];
+      for (const name of names) await h.client.register(name);
+      for (const name of names) assert.equal((await h.fetchDomain(name)).name, name);
+    });
+
+    it("accepts lowercase letters, digits and inner hyphens", async () => {
+      const name = await h.registeredDomain("valid-test-123");
+      assert.equal((await h.fetchDomain(name)).name, name);
+    });
 
-describe("Carv Domain Tests", () => {
-  it("run core domain tests", async () => {
-    const provider = anchor.AnchorProvider.env();
-    anchor.setProvider(provider);
+    it("rejects names shorter than 3 characters on-chain", async () => {
+      await expectProgramError("InvalidLen", () => h.registerRaw("ab"));
+    });
 
-    const program = anchor.workspace.CarvDomain as Program<CarvDomain>;
-    const owner = provider.wallet.publicKey;
-    const treasury = anchor.web3.Keypair.generate();
+    it("rejects names longer than 32 characters in the client", async () => {
+      await assert.rejects(h.client.register("a".repeat(50)), InvalidNameError);
+    });
 
-    console.log("\n🧪 Carv Domain - Core Test Suite\n");
-    console.log("=".repeat(60));
+    it("rejects non-canonical names on-chain", async () => {
+      const cases: [string, ProgramErrorName][] = [
+        ["test@domain", "InvalidChar"],
+        [h.uniqueName("Alice"), "InvalidChar"],
+        [h.uniqueName("\u0430lice"), "InvalidChar"],
+        ["-leading", "InvalidHyphen"],
+        ["trailing-", "InvalidHyphen"],
+        ["dou--ble", "InvalidHyphen"],
+      ];
+      for (const [name, expected] of cases) {
+        await expectProgramError(expected, () => h.registerRaw(name));
+      }
+    });
 
-    let passCount = 0;
-    let failCount = 0;
+    it("stores mixed-case input under its lowercase form", async () => {
+      const name = h.uniqueName("CaseTest");
+      await h.client.register(name);
 
-    const getDomainPDA = async (name: string) => {
-      return anchor.web3.PublicKey.findProgramAddressSync(
-        [Buffer.from("domain"), Buffer.from(name)],
-        program.programId
+      const lower = name.toLowerCase();
+      assert.equal((await h.fetchDomain(lower)).name, lower);
+      assert.ok(h.client.domainAddress(name).equals(h.client.domainAddress(lower)));
+      await assert.rejects(h.client.register(lower), (e: any) =>
+        e.logs?.some((line: string) => line.includes("already in use"))
       );
-    };
+    });
 
-    const generateUniqueDomain = (prefix: string) => {
-      return `${prefix}-${Math.floor(Math.random() * 1000000)}`;
-    };
+    it("charges the quoted tier price for a multi-year 4-character name", async () => {
+      const name = h.uniqueShortName(4);
+      const before = await h.provider.connection.getBalance(h.treasury);
 
-    const runTest = async (testNum: number, testName: string, testFn: () => Promise<void>) => {
-      try {
-        await testFn();
-        console.log(`✅ TEST ${testNum}: ${testName}`);
-        passCount++;
-      } catch (error: any) {
-        console.log(`❌ TEST ${testNum}: ${testName}`);
-        console.log(`   Error: ${error.message.split('\n')[0]}`);
-        failCount++;
-      }
-    };
-
-    const sleep = (ms: number) => new Promise(resolve => {
-      let remaining = ms;
-      const checkAndWait = () => {
-        if (remaining > 0) {
-          remaining--;
-          setImmediate(checkAndWait);
-        } else {
-          resolve(null);
-        }
-      };
-      checkAndWait();
-    });
-
-    // TEST 1: Register Domain
-    await runTest(1, "Register a new domain successfully", async () => {
-      const domainName = generateUniqueDomain("test");
-      const [domainPDA] = await getDomainPDA(domainName);
-
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      if (domainAccount.name !== domainName) throw new Error("Domain name mismatch");
-      if (!domainAccount.active) throw new Error("Domain not active");
-    });
-
-    // TEST 2: Set Domain Data
-    await runTest(2, "Set domain data successfully", async () => {
-      const domainName = generateUniqueDomain("data");
-      const [domainPDA] = await getDomainPDA(domainName);
-
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      const newData = "https://example.com";
-      await program.methods
-        .setData(newData)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-        })
-        .rpc();
-
-      let domainAccount = await program.account.domain.fetch(domainPDA);
-      
-      // Retry if data is empty
-      if (!domainAccount.data || domainAccount.data === "") {
-        await new Promise(r => setImmediate(r));
-        domainAccount = await program.account.domain.fetch(domainPDA);
-      }
-      
-      if (domainAccount.data !== newData) {
-        throw new Error(`Data mismatch: got "${domainAccount.data}" expected "${newData}"`);
-      }
+      await h.client.register(name, { years: 3 });
+
+      const paid = (await h.provider.connection.getBalance(h.treasury)) - before;
+      assert.equal(paid, await h.client.quotePrice(name, 3));
+      const domain = await h.fetchDomain(name);
+      assert.equal(domain.expires.sub(domain.registered).toNumber(), 3 * YEAR_SECONDS);
     });
 
-    // TEST 3: Transfer Domain
-    await runTest(3, "Transfer domain to new owner", async () => {
-      const domainName = generateUniqueDomain("transfer");
-      const [domainPDA] = await getDomainPDA(domainName);
-      const newOwner = anchor.web3.Keypair.generate();
-
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      await program.methods
-        .transfer(newOwner.publicKey)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-        })
-        .rpc();
-
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      if (domainAccount.owner.toBase58() !== newOwner.publicKey.toBase58()) {
-        throw new Error("Owner not updated");
-      }
+    it("rejects terms of 0 or more than 10 years", async () => {
+      await expectProgramError("InvalidYears", () => h.registerRaw(h.uniqueName("years"), 0));
+      await expectProgramError("InvalidYears", () => h.registerRaw(h.uniqueName("years"), 11));
     });
 
-    // TEST 4: Renew Domain
-    await runTest(4, "Renew domain successfully", async () => {
-      const domainName = generateUniqueDomain("renew");
-      const [domainPDA] = await getDomainPDA(domainName);
-
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      const domainBefore = await program.account.domain.fetch(domainPDA);
-      const expiresBefore = domainBefore.expires.toNumber();
-
-      await program.methods
-        .renew()
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      const domainAfter = await program.account.domain.fetch(domainPDA);
-      const expiresAfter = domainAfter.expires.toNumber();
-
-      const yearInSeconds = 31536000;
-      const diff = expiresAfter - expiresBefore;
-      if (Math.abs(diff - yearInSeconds) > 5) throw new Error("Renewal period incorrect");
-    });
-
-    // TEST 5: Reject Non-Owner Operations
-    await runTest(5, "Reject operations from non-owner", async () => {
-      const domainName = generateUniqueDomain("secure");
-      const [domainPDA] = await getDomainPDA(domainName);
+    it("rejects a treasury other than the config's", async () => {
+      const name = h.uniqueName("wrong-treasury");
+      const thief = new CarvDomainClient(h.provider, { program: h.program, treasury: h.wallet });
+
+      await expectProgramError("InvalidTreasury", () => thief.register(name));
+      assert.equal(await h.client.fetchDomain(name), null);
+    });
+
+    it("renews for another year", async () => {
+      const name = await h.registeredDomain("renew");
+      const before = await h.fetchDomain(name);
+
+      await h.client.renew(name);
+
+      const after = await h.fetchDomain(name);
+      assert.equal(after.expires.sub(before.expires).toNumber(), YEAR_SECONDS);
+    });
+
+    it("rejects reclaim and expire of an active name", async () => {
+      const name = await h.registeredDomain("lifecycle");
+      const other = await h.fundedKeypair();
+
+      await expectProgramError("NotReclaimable", () => h.client.reclaim(name, { owner: other }));
+      await expectProgramError("NotExpired", () => h.client.expire(name));
+      assert.equal(await h.client.getStatus(name), "active");
+      assert.ok((await h.fetchDomain(name)).owner.equals(h.wallet));
+    });
+  });
+
+  describe("ownership", () => {
+    it("transfers a name to a new owner", async () => {
+      const name = await h.registeredDomain("transfer");
+      const newOwner = anchor.web3.Keypair.generate().publicKey;
+
+      await h.client.transfer(name, newOwner);
+
+      assert.ok((await h.fetchDomain(name)).owner.equals(newOwner));
+    });
+
+    it("rejects data, transfer and renew from anyone but the owner", async () => {
+      const name = await h.registeredDomain("secure");
       const hacker = anchor.web3.Keypair.generate();
 
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      let errorThrown = false;
-      try {
-        await program.methods
-          .setData("hacked")
-          .accounts({
-            domain: domainPDA,
-            owner: hacker,
-          })
-          .signers([hacker])
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
-      }
+      await expectProgramError("NotOwner", () => h.client.setData(name, "hacked", { owner: hacker }));
+      await expectProgramError("NotOwner", () => h.client.transfer(name, hacker.publicKey, { owner: hacker }));
+      await expectProgramError("NotOwner", () => h.client.renew(name, { owner: hacker }));
+    });
+
+    it("sets data", async () => {
+      const name = await h.registeredDomain("data");
 
-      if (!errorThrown) throw new Error("Should have rejected non-owner operation");
+      await h.client.setData(name, "https://example.com");
+
+      assert.equal((await h.fetchDomain(name)).data, "https://example.com");
     });
 
-    // TEST 6: Reject short domain name
-    await runTest(6, "Reject domain name < 3 characters", async () => {
-      const invalidName = "ab";
-      const [domainPDA] = await getDomainPDA(invalidName);
+    it("rejects data over the size limit", async () => {
+      const name = await h.registeredDomain("big-data");
 
-      let errorThrown = false;
-      try {
-        await program.methods
-          .register(invalidName)
-          .accounts({
-            domain: domainPDA,
-            owner: owner,
-            treasury: treasury.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
-          })
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
-      }
+      await h.client.setData(name, "x".repeat(MAX_DATA_LEN));
+      await expectProgramError("InvalidLen", () => h.client.setData(name, "x".repeat(MAX_DATA_LEN + 1)));
+      assert.equal((await h.fetchDomain(name)).data, "x".repeat(MAX_DATA_LEN));
+    });
+
+    it("resolves a wallet to its primary name", async () => {
+      const name = await h.registeredDomain("primary");
 
-      if (!errorThrown) throw new Error("Should have rejected short name");
+      await h.client.setPrimaryName(name);
+
+      assert.equal(await h.client.resolvePrimaryName(h.wallet), name);
     });
 
-    // TEST 7: Reject long domain name
-    await runTest(7, "Reject domain name > 32 characters", async () => {
-      const invalidName = "a".repeat(50);
-      const [domainPDA] = await getDomainPDA(invalidName);
+    it("rejects a primary name the signer does not own", async () => {
+      const name = await h.registeredDomain("sec-primary");
+      const hacker = await h.fundedKeypair();
 
-      let errorThrown = false;
-      try {
-        await program.methods
-          .register(invalidName)
+      await expectProgramError("NotOwner", () => h.client.setPrimaryName(name, { owner: hacker }));
+    });
+
+    it("clears the primary name on transfer", async () => {
+      const name = await h.registeredDomain("primary-transfer");
+      const newOwner = anchor.web3.Keypair.generate().publicKey;
+
+      await h.client.setPrimaryName(name);
+      await h.client.transfer(name, newOwner);
+
+      assert.equal(await h.provider.connection.getAccountInfo(h.client.reverseAddress(h.wallet)), null);
+      assert.equal(await h.client.resolvePrimaryName(newOwner), null);
+    });
+  });
+
+  describe("records", () => {
+    it("sets, reads and deletes typed records", async () => {
+      const name = await h.registeredDomain("records");
+
+      await h.client.setRecord(name, RecordKind.Twitter, "@carv_io");
+      await h.client.setRecord(name, RecordKind.Url, "https://carv.io");
+
+      assert.equal(await h.client.getRecord(name, RecordKind.Twitter), "carv_io");
+      assert.equal((await h.client.getRecords(name)).url, "https://carv.io");
+
+      await h.client.deleteRecord(name, RecordKind.Twitter);
+      assert.equal(await h.client.getRecord(name, RecordKind.Twitter), null);
+    });
+
+    it("rejects invalid record values on-chain", async () => {
+      const name = await h.registeredDomain("bad-record");
+
+      // Bypass client-side validation to hit the program check
+      await expectProgramError("InvalidRecord", () =>
+        h.program.methods
+          .setRecord({ eth: {} }, "0x1234")
           .accounts({
-            domain: domainPDA,
-            owner: owner,
-            treasury: treasury.publicKey,
+            domain: h.client.domainAddress(name),
+            record: h.client.recordAddress(name, RecordKind.Eth),
+            authority: h.wallet,
             systemProgram: anchor.web3.SystemProgram.programId,
           })
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
-      }
+          .rpc()
+      );
+    });
+
+    it("rejects record updates from anyone but the owner", async () => {
+      const name = await h.registeredDomain("sec-record");
+      const hacker = await h.fundedKeypair();
 
-      if (!errorThrown) throw new Error("Should have rejected long name");
+      await expectProgramError("NotOwner", () =>
+        h.client.setRecord(name, RecordKind.Url, "https://hacked.example", { owner: hacker })
+      );
+    });
+  });
+
+  describe("subdomains", () => {
+    it("creates and resolves a subdomain", async () => {
+      const parent = await h.registeredDomain("team");
+      const member = anchor.web3.Keypair.generate().publicKey;
+
+      await h.client.createSubdomain(parent, "alice", member);
+
+      const resolved = await h.client.resolveName(`alice.${parent}.carv`);
+      assert.ok(resolved);
+      assert.ok(resolved.owner.equals(member));
+      assert.equal(resolved.valid, true);
+    });
+
+    it("rejects subdomains from anyone but the parent owner", async () => {
+      const parent = await h.registeredDomain("sec-team");
+      const hacker = await h.fundedKeypair();
+
+      await expectProgramError("NotOwner", () =>
+        h.client.createSubdomain(parent, "evil", hacker.publicKey, { owner: hacker })
+      );
+    });
+
+    it("lets the subdomain owner, not the parent owner, set its data", async () => {
+      const parent = await h.registeredDomain("team-data");
+      const member = anchor.web3.Keypair.generate();
+      const fullName = `bob.${parent}`;
+
+      await h.client.createSubdomain(parent, "bob", member.publicKey);
+      await h.client.setSubdomainData(fullName, "https://bob.example", { owner: member });
+      assert.equal((await h.client.fetchSubdomain(fullName))?.data, "https://bob.example");
+
+      await expectProgramError("NotOwner", () => h.client.setSubdomainData(fullName, "overwritten"));
+
+      await h.client.deleteSubdomain(fullName);
+      assert.equal(await h.client.fetchSubdomain(fullName), null);
     });
+  });
 
-    // TEST 8: Reject special characters
-    await runTest(8, "Reject special characters (@, _, .)", async () => {
-      const invalidName = "test@domain";
-      const [domainPDA] = await getDomainPDA(invalidName);
+  describe("config", () => {
+    it("blocks registration while paused but still allows renewal", async () => {
+      const existing = await h.registeredDomain("before-pause");
+      const blocked = h.uniqueName("paused");
 
-      let errorThrown = false;
+      await h.client.setPaused(true);
       try {
-        await program.methods
-          .register(invalidName)
-          .accounts({
-            domain: domainPDA,
-            owner: owner,
-            treasury: treasury.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
-          })
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
+        await expectProgramError("Paused", () => h.client.register(blocked));
+        await h.client.renew(existing);
+      } finally {
+        await h.client.setPaused(false);
       }
 
-      if (!errorThrown) throw new Error("Should have rejected special characters");
+      await h.client.register(blocked);
+    });
+
+    it("rejects config changes from anyone but the authority", async () => {
+      const hacker = anchor.web3.Keypair.generate();
+
+      await expectProgramError("NotAuthority", () => h.client.setTreasury(hacker.publicKey, { owner: hacker }));
+      assert.ok((await h.client.getConfig())?.treasury.equals(h.treasury));
     });
+  });
 
-    // TEST 9: Accept valid characters
-    await runTest(9, "Accept alphanumeric and dash characters", async () => {
-      const validName = generateUniqueDomain("valid-test-123");
-      const [domainPDA] = await getDomainPDA(validName);
+  describe("transfers", () => {
+    it("moves the name only when the recipient accepts", async () => {
+      const name = await h.registeredDomain("propose");
+      const recipient = anchor.web3.Keypair.generate();
 
-      await program.methods
-        .register(validName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
+      await h.client.proposeTransfer(name, recipient.publicKey);
+      assert.ok((await h.fetchDomain(name)).owner.equals(h.wallet));
 
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      if (domainAccount.name !== validName) throw new Error("Name mismatch");
+      await h.client.acceptTransfer(name, { owner: recipient });
+      assert.ok((await h.fetchDomain(name)).owner.equals(recipient.publicKey));
+      assert.equal(await h.client.getPendingTransfer(name), null);
     });
 
-    // TEST 10: Domain should be active
-    await runTest(10, "Domain should be active after registration", async () => {
-      const domainName = generateUniqueDomain("active");
-      const [domainPDA] = await getDomainPDA(domainName);
+    it("rejects accept from anyone but the recipient", async () => {
+      const name = await h.registeredDomain("accept-sec");
+      const recipient = anchor.web3.Keypair.generate();
+      const hacker = anchor.web3.Keypair.generate();
 
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
+      await h.client.proposeTransfer(name, recipient.publicKey);
 
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      if (!domainAccount.active) throw new Error("Domain not active");
+      await expectProgramError("NotRecipient", () => h.client.acceptTransfer(name, { owner: hacker }));
     });
 
-    // TEST 11: Correct registration timestamp
-    await runTest(11, "Store correct registration timestamp", async () => {
-      const domainName = generateUniqueDomain("timestamp");
-      const [domainPDA] = await getDomainPDA(domainName);
+    it("lets only the proposer cancel, after which nothing can be accepted", async () => {
+      const name = await h.registeredDomain("cancel");
+      const recipient = anchor.web3.Keypair.generate();
 
-      const beforeTime = Math.floor(Date.now() / 1000);
+      await h.client.proposeTransfer(name, recipient.publicKey);
+      await expectProgramError("NotOwner", () => h.client.cancelTransfer(name, { owner: recipient }));
 
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
+      await h.client.cancelTransfer(name);
+      assert.equal(await h.client.getPendingTransfer(name), null);
+      await assert.rejects(h.client.acceptTransfer(name, { owner: recipient }), /no pending transfer/);
+    });
 
-      const afterTime = Math.floor(Date.now() / 1000);
+    it("rejects a proposal after the name changed hands another way", async () => {
+      const name = await h.registeredDomain("stale-transfer");
+      const recipient = anchor.web3.Keypair.generate();
 
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      const registeredTime = domainAccount.registered.toNumber();
+      await h.client.proposeTransfer(name, recipient.publicKey);
+      await h.client.transfer(name, anchor.web3.Keypair.generate().publicKey);
 
-      if (registeredTime < beforeTime || registeredTime > afterTime + 1) {
-        throw new Error("Timestamp out of range");
-      }
+      await expectProgramError("StaleOffer", () => h.client.acceptTransfer(name, { owner: recipient }));
     });
 
-    // TEST 12: Domain expiry set correctly
-    await runTest(12, "Set expiry to 1 year from registration", async () => {
-      const domainName = generateUniqueDomain("expiry");
-      const [domainPDA] = await getDomainPDA(domainName);
+    it("lets a new owner clear a proposal the previous owner left behind", async () => {
+      const name = await h.registeredDomain("stale-proposal");
+      const buyer = await h.fundedKeypair();
+      const hacker = await h.fundedKeypair();
+
+      await h.client.proposeTransfer(name, anchor.web3.Keypair.generate().publicKey);
+      await h.client.listDomain(name, 10_000_000);
+      await h.client.buyDomain(name, 10_000_000, { owner: buyer });
 
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
+      await expectProgramError("NotOwner", () => h.client.cancelTransfer(name, { owner: hacker }));
+      const proposerBefore = await h.provider.connection.getBalance(h.wallet);
+      await h.client.cancelTransfer(name, { owner: buyer });
+      // The rent goes back to the proposer, not to whoever cleared it
+      assert.ok((await h.provider.connection.getBalance(h.wallet)) > proposerBefore);
 
-      const domainAccount = await program.account.domain.fetch(domainPDA);
-      const expiryTime = domainAccount.expires.toNumber();
-      const registeredTime = domainAccount.registered.toNumber();
+      await h.client.proposeTransfer(name, h.wallet, { owner: buyer });
+      assert.ok((await h.client.getPendingTransfer(name))!.from.equals(buyer.publicKey));
+    });
+  });
 
-      const yearInSeconds = 31536000;
-      const diff = expiryTime - registeredTime;
+  describe("identity proofs", () => {
+    it("stores signed handles that verify until the name changes hands", async () => {
+      const name = await h.registeredDomain("proven");
+      const recipient = anchor.web3.Keypair.generate();
 
-      if (Math.abs(diff - yearInSeconds) > 5) {
-        throw new Error(`Expiry not 1 year: diff=${diff}, expected=${yearInSeconds}`);
-      }
+      await h.client.createProof(name, { twitter: "carv_io" });
+      assert.deepEqual(await h.client.verifyProof(name), { status: "verified", claims: { twitter: "carv_io" } });
+
+      await h.client.proposeTransfer(name, recipient.publicKey);
+      await h.client.acceptTransfer(name, { owner: recipient });
+      assert.equal((await h.client.verifyProof(name))!.status, "unverified");
     });
 
-    // TEST 13: Only owner can transfer
-    await runTest(13, "Reject transfer from non-owner", async () => {
-      const domainName = generateUniqueDomain("sec-transfer");
-      const [domainPDA] = await getDomainPDA(domainName);
-      const hacker = anchor.web3.Keypair.generate();
-      const newOwner = anchor.web3.Keypair.generate();
-
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      let errorThrown = false;
-      try {
-        await program.methods
-          .transfer(newOwner.publicKey)
-          .accounts({
-            domain: domainPDA,
-            owner: hacker,
-          })
-          .signers([hacker])
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
-      }
+    it("reports unsigned handles and unknown names", async () => {
+      const name = await h.registeredDomain("claimed");
+      await h.client.setData(name, '{"twitter":"@carv_io"}');
 
-      if (!errorThrown) throw new Error("Should have rejected non-owner transfer");
+      assert.equal((await h.client.verifyProof(name))!.status, "none");
+      assert.equal(await h.client.verifyProof(h.uniqueName("nobody")), null);
     });
+  });
 
-    // TEST 14: Only owner can renew
-    await runTest(14, "Reject renew from non-owner", async () => {
-      const domainName = generateUniqueDomain("sec-renew");
-      const [domainPDA] = await getDomainPDA(domainName);
-      const hacker = anchor.web3.Keypair.generate();
+  describe("marketplace", () => {
+    it("lets a new owner clear a listing the previous owner left behind", async () => {
+      const name = await h.registeredDomain("stale-listing");
+      const recipient = await h.fundedKeypair();
+
+      await h.client.listDomain(name, 10_000_000);
+      await h.client.proposeTransfer(name, recipient.publicKey);
+      await h.client.acceptTransfer(name, { owner: recipient });
+
+      const sellerBefore = await h.provider.connection.getBalance(h.wallet);
+      await h.client.delistDomain(name, { owner: recipient });
+      assert.ok((await h.provider.connection.getBalance(h.wallet)) > sellerBefore);
+
+      await h.client.listDomain(name, 20_000_000, { owner: recipient });
+      assert.ok((await h.client.getListing(name))!.seller.equals(recipient.publicKey));
+    });
+
+    it("pays the seller and moves the name to the buyer", async () => {
+      const name = await h.registeredDomain("for-sale");
+      const buyer = await h.fundedKeypair();
+      const price = 50_000_000;
+
+      await h.client.listDomain(name, price);
+      const sellerBefore = await h.provider.connection.getBalance(h.wallet);
+      await h.client.buyDomain(name, price, { owner: buyer });
+      const sellerAfter = await h.provider.connection.getBalance(h.wallet);
+
+      assert.ok((await h.fetchDomain(name)).owner.equals(buyer.publicKey));
+      assert.equal(await h.client.getListing(name), null);
+      // The seller also pays this transaction's fee but gets the listing rent back
+      assert.ok(sellerAfter - sellerBefore >= price, `Seller received ${sellerAfter - sellerBefore}`);
+    });
+
+    it("rejects bad listings and mismatched buy prices", async () => {
+      const name = await h.registeredDomain("sale-sec");
+      const hacker = await h.fundedKeypair();
+      const buyer = await h.fundedKeypair();
+
+      await expectProgramError("InvalidPrice", () => h.client.listDomain(name, 0));
+      await expectProgramError("NotOwner", () => h.client.listDomain(name, 1_000, { owner: hacker }));
+
+      await h.client.listDomain(name, 10_000_000);
+      await expectProgramError("PriceMismatch", () => h.client.buyDomain(name, 1_000, { owner: buyer }));
+      await expectProgramError("NotOwner", () => h.client.delistDomain(name, { owner: hacker }));
+
+      await h.client.delistDomain(name);
+      assert.equal(await h.client.getListing(name), null);
+    });
+
+    it("rejects buying a listing after the seller gave the name away", async () => {
+      const name = await h.registeredDomain("stale-sale");
+      const buyer = await h.fundedKeypair();
+
+      await h.client.listDomain(name, 10_000_000);
+      await h.client.transfer(name, anchor.web3.Keypair.generate().publicKey);
+
+      await expectProgramError("StaleOffer", () => h.client.buyDomain(name, 10_000_000, { owner: buyer }));
+    });
+  });
+
+  describe("release", () => {
+    it("refunds the rent and lets anyone register the name again", async () => {
+      const name = await h.registeredDomain("released");
+      const other = await h.fundedKeypair();
+      const address = h.client.domainAddress(name);
+      const rent = (await h.provider.connection.getAccountInfo(address))!.lamports;
+      await h.client.setPrimaryName(name);
+      await h.waitForClock((await h.fetchDomain(name)).registered.toNumber());
+
+      const before = await h.provider.connection.getBalance(h.wallet);
+      await h.client.release(name);
+      const after = await h.provider.connection.getBalance(h.wallet);
+
+      assert.equal(await h.client.fetchDomain(name), null);
+      // The reverse record's rent comes back too; only the fee is paid
+      assert.ok(after - before >= rent - 10_000, `Owner received ${after - before} of ${rent}`);
+      assert.equal(await h.client.resolvePrimaryName(h.wallet), null);
+
+      await h.client.register(name, { owner: other });
+      assert.ok((await h.fetchDomain(name)).owner.equals(other.publicKey));
+    });
+
+    it("rejects release by anyone but the owner", async () => {
+      const name = await h.registeredDomain("release-sec");
+      const hacker = await h.fundedKeypair();
+
+      await expectProgramError("NotOwner", () => h.client.release(name, { owner: hacker }));
+    });
+
+    it("rejects release while a transfer or sale is pending", async () => {
+      const name = await h.registeredDomain("release-offer");
+      await h.waitForClock((await h.fetchDomain(name)).registered.toNumber());
+
+      await h.client.proposeTransfer(name, anchor.web3.Keypair.generate().publicKey);
+      await expectProgramError("OfferPending", () => h.client.release(name));
+      await h.client.cancelTransfer(name);
+
+      await h.client.listDomain(name, 10_000_000);
+      await expectProgramError("OfferPending", () => h.client.release(name));
+      await h.client.delistDomain(name);
+
+      await h.client.release(name);
+      assert.equal(await h.client.fetchDomain(name), null);
+    });
+  });
+
+  describe("renewal vault", () => {
+    it("holds deposits until the owner withdraws them", async () => {
+      const name = await h.registeredDomain("vault");
+      assert.equal(await h.client.getRenewalBalance(name), 0);
+
+      await h.client.depositRenewal(name, 30_000_000);
+      await h.client.depositRenewal(name, 10_000_000);
+      assert.equal(await h.client.getRenewalBalance(name), 40_000_000);
+
+      const before = await h.provider.connection.getBalance(h.wallet);
+      await h.client.withdrawRenewal(name);
+      const after = await h.provider.connection.getBalance(h.wallet);
+      assert.ok(after - before >= 40_000_000, `Owner received ${after - before}`);
+      assert.equal(await h.provider.connection.getAccountInfo(h.client.renewalVaultAddress(name)), null);
+    });
+
+    it("rejects deposits by anyone but the owner and empty deposits", async () => {
+      const name = await h.registeredDomain("vault-sec");
+      const hacker = await h.fundedKeypair();
+
+      await expectProgramError("NotOwner", () => h.client.depositRenewal(name, 10_000_000, { owner: hacker }));
+      await expectProgramError("InvalidAmount", () => h.client.depositRenewal(name, 0));
+    });
+
+    it("rejects a crank long before expiry", async () => {
+      const name = await h.registeredDomain("vault-early");
+      await h.client.depositRenewal(name, 100_000_000);
+      const { expires } = await h.fetchDomain(name);
+
+      await expectProgramError("RenewTooEarly", () => h.client.crankRenew(name));
+      assert.ok((await h.fetchDomain(name)).expires.eq(expires));
+      assert.equal(await h.client.getRenewalBalance(name), 100_000_000);
+    });
+  });
+
+  describe("events", () => {
+    it("emits an event for every state change, live and in the history", async () => {
+      const name = h.uniqueName("events");
+      const recipient = anchor.web3.Keypair.generate().publicKey;
+      const expected = ["domainRegistered", "domainRenewed", "dataUpdated", "domainTransferred"];
+      const live: string[] = [];
+      const unsubscribe = h.client.onDomainEvent({ name }, (event) => live.push(event.name));
 
-      await program.methods
-        .register(domainName)
-        .accounts({
-          domain: domainPDA,
-          owner: owner,
-          treasury: treasury.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-
-      let errorThrown = false;
       try {
-        await program.methods
-          .renew()
-          .accounts({
-            domain: domainPDA,
-            owner: hacker,
-            treasury: treasury.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
-          })
-          .signers([hacker])
-          .rpc();
-      } catch (e) {
-        errorThrown = true;
+        await h.client.register(name, { years: 2 });
+        await h.client.renew(name);
+        await h.client.setData(name, '{"x":1}');
+        await h.client.transfer(name, recipient);
+        await waitFor(() => live.length >= expected.length);
+      } finally {
+        await unsubscribe();
       }
+      assert.deepEqual(live, expected);
 
-      if (!errorThrown) throw new Error("Should have rejected non-owner renew");
+      const history = (await h.client.getHistory(name)).map((entry) => entry.event);
+      assert.deepEqual(
+        history.map((event) => event.name),
+        expected
+      );
+      const [registered, renewed, updated, transferred] = history;
+      assert.ok(registered.name === "domainRegistered" && registered.data.years === 2);
+      assert.equal(registered.data.previousOwner, null);
+      assert.ok(renewed.name === "domainRenewed");
+      assert.ok(updated.name === "dataUpdated" && updated.data.payer.equals(h.wallet));
+      assert.ok(updated.data.expires.eq(renewed.data.expires));
+      assert.ok(transferred.name === "domainTransferred" && transferred.data.owner.equals(recipient));
+      assert.ok(transferred.data.payer.equals(h.wallet) && transferred.data.expires.eq(renewed.data.expires));
     });
+  });
 
-    // TEST 15: Multiple domains
-    await runTest(15, "Register multiple domains", async () => {
-      const domainNames = [
-        generateUniqueDomain("multi1"),
-        generateUniqueDomain("multi2"),
-        generateUniqueDomain("multi3"),
-      ];
+  describe("batches", () => {
+    it("registers and renews several names, reporting each", async () => {
+      const names = Array.from({ length: 6 }, () => h.uniqueName("bulk"));
+      const taken = await h.registeredDomain("taken");
+
+      const registered = await h.client.registerMany([...names, taken, "x"]);
+      assert.deepEqual(
+        registered.filter((r) => r.error).map((r) => r.name),
+        [taken, "x"]
+      );
+      const signatures = new Set(registered.filter((r) => r.signature).map((r) => r.signature));
+      assert.ok(signatures.size < names.length, "Names were not packed together");
+
+      const before = await Promise.all(names.map((name) => h.fetchDomain(name)));
+      const renewed = await h.client.renewMany(names, { years: 2 });
+      assert.deepEqual(
+        renewed.filter((r) => r.error).map((r) => r.name),
+        []
+      );
+      const after = await Promise.all(names.map((name) => h.fetchDomain(name)));
+      after.forEach((domain, i) => {
+        assert.equal(domain.expires.sub(before[i].expires).toNumber(), 2 * YEAR_SECONDS, names[i]);
+      });
+    });
+  });
 
-      for (const name of domainNames) {
-        const [pda] = await getDomainPDA(name);
+  describe("manager", () => {
+    it("lets the manager edit data and records until revoked", async () => {
+      const name = await h.registeredDomain("managed");
+      const manager = await h.fundedKeypair();
 
-        await program.methods
-          .register(name)
-          .accounts({
-            domain: pda,
-            owner: owner,
-            treasury: treasury.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
+      await h.client.setManager(name, manager.publicKey);
+      assert.ok((await h.fetchDomain(name)).manager?.equals(manager.publicKey));
+
+      await h.client.setData(name, '{"bot":true}', { owner: manager });
+      await h.client.setRecord(name, RecordKind.Url, "https://carv.io", { owner: manager });
+      assert.equal(await h.client.getRecord(name, RecordKind.Url), "https://carv.io");
+      await h.client.deleteRecord(name, RecordKind.Url, { owner: manager });
+
+      await h.client.setManager(name, null);
+      const domain = await h.fetchDomain(name);
+      assert.equal(domain.manager, null);
+      assert.equal(domain.data, '{"bot":true}');
+      await expectProgramError("NotOwner", () => h.client.setData(name, "{}", { owner: manager }));
+    });
+
+    it("does not let the manager transfer, sell or replace itself", async () => {
+      const name = await h.registeredDomain("managed-sec");
+      const manager = await h.fundedKeypair();
+      await h.client.setManager(name, manager.publicKey);
+
+      await expectProgramError("NotOwner", () => h.client.transfer(name, manager.publicKey, { owner: manager }));
+      await expectProgramError("NotOwner", () => h.client.proposeTransfer(name, manager.publicKey, { owner: manager }));
+      await expectProgramError("NotOwner", () => h.client.listDomain(name, 1_000_000, { owner: manager }));
+      await expectProgramError("NotOwner", () => h.client.setManager(name, null, { owner: manager }));
+    });
+  });
+
+  describe("wrapping", () => {
+    // Move the token with plain Token-2022 instructions, as a wallet or marketplace would
+    const sendToken = (mint: anchor.web3.PublicKey, to: anchor.web3.PublicKey) =>
+      h.provider.sendAndConfirm!(
+        new anchor.web3.Transaction().add(
+          new anchor.web3.TransactionInstruction({
+            programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+            keys: [
+              { pubkey: h.wallet, isSigner: true, isWritable: true },
+              { pubkey: getTokenAccountAddress(to, mint), isSigner: false, isWritable: true },
+              { pubkey: to, isSigner: false, isWritable: false },
+              { pubkey: mint, isSigner: false, isWritable: false },
+              { pubkey: anchor.web3.SystemProgram.programId, isSigner: false, isWritable: false },
+              { pubkey: TOKEN_2022_PROGRAM_ID, isSigner: false, isWritable: false },
+            ],
+            data: Buffer.alloc(0),
+          }),
+          new anchor.web3.TransactionInstruction({
+            programId: TOKEN_2022_PROGRAM_ID,
+            keys: [
+              { pubkey: getTokenAccountAddress(h.wallet, mint), isSigner: false, isWritable: true },
+              { pubkey: getTokenAccountAddress(to, mint), isSigner: false, isWritable: true },
+              { pubkey: h.wallet, isSigner: true, isWritable: false },
+            ],
+            // Transfer, amount 1
+            data: Buffer.from([3, 1, 0, 0, 0, 0, 0, 0, 0]),
           })
-          .rpc();
+        )
+      );
 
-        const domainAccount = await program.account.domain.fetch(pda);
-        if (domainAccount.name !== name) throw new Error(`Domain ${name} mismatch`);
-      }
+    it("follows the token between wallets until unwrapped", async () => {
+      const name = await h.registeredDomain("wrapped");
+      const holder = await h.fundedKeypair();
+
+      await h.client.wrap(name);
+      const mint = h.client.mintAddress(name, await h.fetchDomain(name));
+      assert.ok((await h.fetchDomain(name)).owner.equals(mint));
+      assert.ok((await h.client.getOwner(name))?.equals(h.wallet));
+      await h.client.setData(name, '{"held":true}');
+
+      await sendToken(mint, holder.publicKey);
+      assert.ok((await h.client.getOwner(name))?.equals(holder.publicKey));
+      await expectProgramError("NotOwner", () => h.client.setData(name, "{}"));
+      await h.client.setData(name, '{"held":"elsewhere"}', { owner: holder });
+
+      await expectProgramError("NotOwner", () => h.client.unwrap(name));
+      await h.client.unwrap(name, { owner: holder });
+      assert.ok((await h.fetchDomain(name)).owner.equals(holder.publicKey));
+      assert.equal(await h.provider.connection.getAccountInfo(mint), null);
     });
 
-    // SUMMARY
-    console.log("\n" + "=".repeat(60));
-    console.log(`\n📊 TEST RESULTS:`);
-    console.log(`   ✅ Passed: ${passCount}`);
-    console.log(`   ❌ Failed: ${failCount}`);
-    console.log(`   📈 Total:  ${passCount + failCount}`);
-    console.log(`\n${"=".repeat(60)}\n`);
+    it("lets the token holder renew, fund and edit the name", async () => {
+      const name = await h.registeredDomain("wrapped-holder");
+      await h.client.wrap(name);
+      const mint = h.client.mintAddress(name, await h.fetchDomain(name));
+
+      await h.client.renew(name);
+      const expires = (await h.fetchDomain(name)).expires.toNumber();
+      // The token's metadata shows the new expiry to wallets and marketplaces
+      const metadata = (await h.provider.connection.getAccountInfo(mint))!.data.toString("latin1");
+      assert.ok(metadata.includes("expires") && metadata.includes(String(expires)));
+
+      await h.client.setRecord(name, RecordKind.Twitter, "carv_io");
+      assert.equal(await h.client.getRecord(name, RecordKind.Twitter), "carv_io");
+      await h.client.deleteRecord(name, RecordKind.Twitter);
+
+      await h.client.depositRenewal(name, 1_000_000);
+      assert.equal(await h.client.getRenewalBalance(name), 1_000_000);
+      await h.client.withdrawRenewal(name);
 
-    if (failCount === 0) {
-      console.log("🎉 All tests passed!\n");
-    }
+      const stranger = await h.fundedKeypair();
+      await expectProgramError("NotOwner", () => h.client.renew(name, { owner: stranger }));
+      await expectProgramError("NotOwner", () => h.client.depositRenewal(name, 1_000_000, { owner: stranger }));
+    });
+
+    it("verifies proofs signed by the token holder", async () => {
+      const name = await h.registeredDomain("wrapped-proof");
+      const holder = await h.fundedKeypair();
+      await h.client.wrap(name);
+
+      await h.client.createProof(name, { github: "carv" });
+      assert.deepEqual(await h.client.verifyProof(name), { status: "verified", claims: { github: "carv" } });
+
+      await sendToken(h.client.mintAddress(name, await h.fetchDomain(name)), holder.publicKey);
+      assert.equal((await h.client.verifyProof(name))!.status, "unverified");
+      await h.client.createProof(name, { github: "holder" }, { owner: holder });
+      assert.equal((await h.client.verifyProof(name))!.status, "verified");
+    });
   });
 });
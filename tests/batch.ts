@@ -0,0 +1,75 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { BatchItem, packBatches, runBatches, transactionSize } from "../client/batch";
+import { encodeRenew } from "../client/codec";
+
+describe("Carv Domain Batches", () => {
+  const payer = anchor.web3.Keypair.generate().publicKey;
+  const programId = anchor.web3.Keypair.generate().publicKey;
+  const config = anchor.web3.Keypair.generate().publicKey;
+
+  // A renew-shaped instruction: one new domain account per name plus shared accounts
+  const item = (name: string): BatchItem => ({
+    name,
+    instructions: [
+      new anchor.web3.TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: anchor.web3.Keypair.generate().publicKey, isSigner: false, isWritable: true },
+          { pubkey: payer, isSigner: true, isWritable: true },
+          { pubkey: config, isSigner: false, isWritable: false },
+        ],
+        data: Buffer.from(encodeRenew()),
+      }),
+    ],
+  });
+
+  it("packs as many items as fit and keeps their order", () => {
+    const items = Array.from({ length: 40 }, (_, i) => item(`name-${i}`));
+    const batches = packBatches(payer, items);
+
+    assert.ok(batches.length > 1);
+    assert.deepEqual(batches.flat(), items);
+    for (const batch of batches) {
+      assert.ok(transactionSize(payer, batch.flatMap((i) => i.instructions)) <= anchor.web3.PACKET_DATA_SIZE);
+    }
+    // Each batch but the last is full: adding the next item would overflow it
+    for (let b = 0; b < batches.length - 1; b++) {
+      const next = batches[b + 1][0];
+      const overflow = [...batches[b], next].flatMap((i) => i.instructions);
+      assert.ok(transactionSize(payer, overflow) > anchor.web3.PACKET_DATA_SIZE);
+    }
+  });
+
+  it("retries a failed batch one name at a time", async () => {
+    const items = ["alice", "bob", "carol"].map(item);
+    const sent: number[] = [];
+    const results = await runBatches(payer, items, async (instructions) => {
+      sent.push(instructions.length);
+      if (instructions.includes(items[1].instructions[0])) throw new Error("bob failed");
+      return `sig-${sent.length}`;
+    });
+
+    assert.deepEqual(sent, [3, 1, 1, 1]);
+    assert.deepEqual(
+      results.map((r) => [r.name, r.signature ?? r.error!.message]),
+      [
+        ["alice", "sig-2"],
+        ["bob", "bob failed"],
+        ["carol", "sig-4"],
+      ]
+    );
+  });
+
+  it("does not retry one by one after the wallet rejects", async () => {
+    const items = ["alice", "bob"].map(item);
+    let calls = 0;
+    const results = await runBatches(payer, items, async () => {
+      calls++;
+      throw Object.assign(new Error("User rejected the request."), { code: 4001 });
+    });
+
+    assert.equal(calls, 1);
+    assert.ok(results.every((r) => r.error));
+  });
+});
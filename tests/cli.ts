@@ -0,0 +1,36 @@
+import { strict as assert } from "assert";
+import { EXIT_CODES, PROGRAM_ERROR_EXIT_CODES, run } from "../client/cli";
+
+// Runs the CLI in-process and returns its exit code and parsed --json output
+async function carv(...argv: string[]) {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (line: string) => lines.push(line);
+  try {
+    const code = await run([...argv, "--json"]);
+    return { code, output: lines.length ? JSON.parse(lines.join("\n")) : null };
+  } finally {
+    console.log = log;
+  }
+}
+
+describe("Carv Domain CLI", () => {
+  it("exits with the program's error codes for names it rejects before sending", async () => {
+    const tooShort = await carv("search", "ab");
+    assert.equal(tooShort.code, PROGRAM_ERROR_EXIT_CODES.InvalidLen);
+    assert.equal(tooShort.code, 12);
+    assert.equal(tooShort.output.error, "InvalidLen");
+
+    const badChar = await carv("search", "under_score");
+    assert.equal(badChar.code, PROGRAM_ERROR_EXIT_CODES.InvalidChar);
+    assert.equal(badChar.code, 13);
+    assert.equal(badChar.output.error, "InvalidChar");
+
+    assert.equal((await carv("search", "double--hyphen")).code, 13);
+    assert.equal((await carv("search", "a".repeat(50))).code, 12);
+  });
+
+  it("exits with the usage code for missing arguments", async () => {
+    assert.equal((await carv("search")).code, EXIT_CODES.usage);
+  });
+});
@@ -0,0 +1,338 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BorshCoder } from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import idl from "../target/idl/carv_domain.json";
+import {
+  decodeCommitment,
+  decodeConfig,
+  decodeDomain,
+  decodeDomainRecord,
+  decodeInstruction,
+  decodeListing,
+  decodePendingTransfer,
+  decodeRenewalVault,
+  decodeReverseRecord,
+  decodeSubdomain,
+  DiscriminatorMismatchError,
+  Domain,
+  DOMAIN_ACCOUNT_SIZES,
+  encodeAcceptTransfer,
+  encodeBuyDomain,
+  encodeClearPrimary,
+  encodeCloseCommitment,
+  encodeCommit,
+  encodeCommitment,
+  encodeConfig,
+  encodeCrankRenew,
+  encodeDeleteRecord,
+  encodeDepositRenewal,
+  encodeDomain,
+  encodeDomainRecord,
+  encodeExpire,
+  encodeListDomain,
+  encodeListing,
+  encodeMigrate,
+  encodePendingTransfer,
+  encodeProposeTransfer,
+  encodeReclaim,
+  encodeRegister,
+  encodeRegisterWithReveal,
+  encodeRelease,
+  encodeRenew,
+  encodeRenewalVault,
+  encodeReverseRecord,
+  encodeSetData,
+  encodeSetManager,
+  encodeSetPaused,
+  encodeSetPrices,
+  encodeSetPrimary,
+  encodeSetRecord,
+  encodeSubdomain,
+  encodeSetTreasury,
+  encodeTransfer,
+  encodeUnwrap,
+  encodeWithdrawRenewal,
+  encodeWrap,
+  MalformedDataError,
+  TruncatedDataError,
+} from "../client/codec";
+import { RecordKind } from "../client/records";
+
+describe("Carv Domain Codec", () => {
+  const coder = new BorshCoder(idl as anchor.Idl);
+
+  const sample: Domain = {
+    owner: anchor.web3.Keypair.generate().publicKey,
+    name: "alice",
+    registered: new anchor.BN(1_700_000_000),
+    expires: new anchor.BN(1_731_536_000),
+    active: true,
+    data: '{"twitter": "@alice"}',
+    manager: null,
+    version: 2,
+  };
+
+  it("encodes Domain accounts byte-for-byte like Anchor", async () => {
+    const anchorBytes = await coder.accounts.encode("Domain", sample);
+    assert.deepEqual(Buffer.from(encodeDomain(sample)), anchorBytes);
+  });
+
+  it("decodes Domain accounts produced by Anchor", async () => {
+    const anchorBytes = await coder.accounts.encode("Domain", sample);
+    // On-chain accounts are zero-padded to their allocated space
+    const padded = Buffer.concat([anchorBytes, Buffer.alloc(64)]);
+    const decoded = decodeDomain(padded);
+
+    assert.ok(decoded.owner.equals(sample.owner));
+    assert.equal(decoded.name, sample.name);
+    assert.ok(decoded.registered.eq(sample.registered));
+    assert.ok(decoded.expires.eq(sample.expires));
+    assert.equal(decoded.active, sample.active);
+    assert.equal(decoded.data, sample.data);
+    assert.equal(decoded.manager, null);
+    assert.equal(decoded.version, 2);
+  });
+
+  it("decodes Domain accounts in every earlier layout", () => {
+    // Accounts before version 2 have no version byte; v0 has no manager either
+    const legacy = (domain: Domain, version: 0 | 1) => {
+      const current = encodeDomain(domain);
+      const bytes = new Uint8Array(DOMAIN_ACCOUNT_SIZES[version]);
+      bytes.set(current.subarray(0, current.length - (version === 0 ? 2 : 1)));
+      return bytes;
+    };
+    const managed = { ...sample, manager: anchor.web3.Keypair.generate().publicKey };
+
+    const v1 = decodeDomain(legacy(managed, 1));
+    assert.equal(v1.version, 1);
+    assert.equal(v1.data, sample.data);
+    assert.ok(v1.manager!.equals(managed.manager));
+
+    const v0 = decodeDomain(legacy(sample, 0));
+    assert.equal(v0.version, 0);
+    assert.equal(v0.data, sample.data);
+    assert.equal(v0.manager, null);
+
+    // A v0 account with the longest name and data has no bytes to spare
+    const full = { ...sample, name: "a".repeat(32), data: "x".repeat(128) };
+    assert.equal(decodeDomain(legacy(full, 0)).data, full.data);
+  });
+
+  it("round-trips a Domain with a manager against Anchor", async () => {
+    const managed = { ...sample, manager: anchor.web3.Keypair.generate().publicKey };
+    const anchorBytes = await coder.accounts.encode("Domain", managed);
+    assert.deepEqual(Buffer.from(encodeDomain(managed)), anchorBytes);
+    assert.ok(decodeDomain(anchorBytes).manager!.equals(managed.manager));
+  });
+
+  it("round-trips ReverseRecord accounts against Anchor", async () => {
+    const record = { domain: anchor.web3.Keypair.generate().publicKey, name: "alice" };
+    const anchorBytes = await coder.accounts.encode("ReverseRecord", record);
+    assert.deepEqual(Buffer.from(encodeReverseRecord(record)), anchorBytes);
+
+    const decoded = decodeReverseRecord(anchorBytes);
+    assert.ok(decoded.domain.equals(record.domain));
+    assert.equal(decoded.name, record.name);
+  });
+
+  it("round-trips DomainRecord accounts against Anchor", async () => {
+    const record = {
+      domain: anchor.web3.Keypair.generate().publicKey,
+      kind: RecordKind.Github,
+      value: "carv",
+      domainRegistered: new anchor.BN(1_700_000_000),
+    };
+    const anchorBytes = await coder.accounts.encode("DomainRecord", { ...record, kind: { github: {} } });
+    assert.deepEqual(Buffer.from(encodeDomainRecord(record)), anchorBytes);
+    const decoded = decodeDomainRecord(anchorBytes);
+    assert.deepEqual({ ...decoded, domainRegistered: undefined }, { ...record, domainRegistered: undefined });
+    assert.ok(decoded.domainRegistered.eq(record.domainRegistered));
+  });
+
+  it("round-trips Subdomain accounts against Anchor", async () => {
+    const subdomain = {
+      parent: anchor.web3.Keypair.generate().publicKey,
+      owner: anchor.web3.Keypair.generate().publicKey,
+      label: "alice",
+      created: new anchor.BN(1_700_000_000),
+      parentRegistered: new anchor.BN(1_690_000_000),
+      data: "",
+    };
+    const anchorBytes = await coder.accounts.encode("Subdomain", subdomain);
+    assert.deepEqual(Buffer.from(encodeSubdomain(subdomain)), anchorBytes);
+
+    const decoded = decodeSubdomain(anchorBytes);
+    assert.ok(decoded.parent.equals(subdomain.parent));
+    assert.equal(decoded.label, "alice");
+    assert.ok(decoded.parentRegistered.eq(subdomain.parentRegistered));
+  });
+
+  it("round-trips Config accounts against Anchor", async () => {
+    const config = {
+      authority: anchor.web3.Keypair.generate().publicKey,
+      treasury: anchor.web3.Keypair.generate().publicKey,
+      price3Chars: new anchor.BN(160_000_000),
+      price4Chars: new anchor.BN(80_000_000),
+      priceDefault: new anchor.BN("18446744073709551615"),
+      paused: true,
+    };
+    const anchorBytes = await coder.accounts.encode("Config", config);
+    assert.deepEqual(Buffer.from(encodeConfig(config)), anchorBytes);
+
+    const decoded = decodeConfig(anchorBytes);
+    assert.ok(decoded.treasury.equals(config.treasury));
+    assert.ok(decoded.priceDefault.eq(config.priceDefault));
+    assert.equal(decoded.paused, true);
+  });
+
+  it("round-trips PendingTransfer and Listing accounts against Anchor", async () => {
+    const pending = {
+      domain: anchor.web3.Keypair.generate().publicKey,
+      from: anchor.web3.Keypair.generate().publicKey,
+      to: anchor.web3.Keypair.generate().publicKey,
+      created: new anchor.BN(1_700_000_000),
+    };
+    const pendingBytes = await coder.accounts.encode("PendingTransfer", pending);
+    assert.deepEqual(Buffer.from(encodePendingTransfer(pending)), pendingBytes);
+    assert.ok(decodePendingTransfer(pendingBytes).to.equals(pending.to));
+
+    const listing = {
+      domain: pending.domain,
+      seller: pending.from,
+      price: new anchor.BN(50_000_000),
+      created: new anchor.BN(1_700_000_000),
+    };
+    const listingBytes = await coder.accounts.encode("Listing", listing);
+    assert.deepEqual(Buffer.from(encodeListing(listing)), listingBytes);
+    assert.ok(decodeListing(listingBytes).price.eq(listing.price));
+  });
+
+  it("round-trips Commitment accounts against Anchor", async () => {
+    const commitment = { owner: anchor.web3.Keypair.generate().publicKey, created: new anchor.BN(1_700_000_000) };
+    const anchorBytes = await coder.accounts.encode("Commitment", commitment);
+    assert.deepEqual(Buffer.from(encodeCommitment(commitment)), anchorBytes);
+
+    const decoded = decodeCommitment(anchorBytes);
+    assert.ok(decoded.owner.equals(commitment.owner));
+    assert.ok(decoded.created.eq(commitment.created));
+  });
+
+  it("round-trips RenewalVault accounts against Anchor", async () => {
+    const vault = {
+      domain: anchor.web3.Keypair.generate().publicKey,
+      owner: anchor.web3.Keypair.generate().publicKey,
+    };
+    const anchorBytes = await coder.accounts.encode("RenewalVault", vault);
+    assert.deepEqual(Buffer.from(encodeRenewalVault(vault)), anchorBytes);
+    assert.ok(decodeRenewalVault(anchorBytes).owner.equals(vault.owner));
+  });
+
+  it("round-trips negative timestamps", () => {
+    const domain = { ...sample, registered: new anchor.BN(-1) };
+    assert.ok(decodeDomain(encodeDomain(domain)).registered.eqn(-1));
+  });
+
+  it("encodes instructions byte-for-byte like Anchor", () => {
+    const newOwner = anchor.web3.Keypair.generate().publicKey;
+    const salt = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const cases: [Uint8Array, Buffer][] = [
+      [encodeRegister("alice"), coder.instruction.encode("register", { name: "alice", years: 1 })],
+      [encodeRegister("bob", 10), coder.instruction.encode("register", { name: "bob", years: 10 })],
+      [encodeRenew(3), coder.instruction.encode("renew", { years: 3 })],
+      [encodeDepositRenewal(42), coder.instruction.encode("deposit_renewal", { amount: new anchor.BN(42) })],
+      [encodeWithdrawRenewal(), coder.instruction.encode("withdraw_renewal", {})],
+      [encodeCrankRenew(), coder.instruction.encode("crank_renew", {})],
+      [encodeTransfer(newOwner), coder.instruction.encode("transfer", { newOwner })],
+      [encodeSetData("https://example.com"), coder.instruction.encode("set_data", { data: "https://example.com" })],
+      [encodeSetPrimary(), coder.instruction.encode("set_primary", {})],
+      [encodeClearPrimary(), coder.instruction.encode("clear_primary", {})],
+      [
+        encodeSetRecord(RecordKind.Email, "a@b.co"),
+        coder.instruction.encode("set_record", { kind: { email: {} }, value: "a@b.co" }),
+      ],
+      [encodeDeleteRecord(RecordKind.Arweave), coder.instruction.encode("delete_record", { kind: { arweave: {} } })],
+      [encodeReclaim(2), coder.instruction.encode("reclaim", { years: 2 })],
+      [encodeSetTreasury(newOwner), coder.instruction.encode("set_treasury", { treasury: newOwner })],
+      [
+        encodeSetPrices(3, 2, 1),
+        coder.instruction.encode("set_prices", {
+          price3Chars: new anchor.BN(3),
+          price4Chars: new anchor.BN(2),
+          priceDefault: new anchor.BN(1),
+        }),
+      ],
+      [encodeSetPaused(true), coder.instruction.encode("set_paused", { paused: true })],
+      [encodeProposeTransfer(newOwner), coder.instruction.encode("propose_transfer", { newOwner })],
+      [encodeAcceptTransfer(), coder.instruction.encode("accept_transfer", {})],
+      [encodeListDomain(42), coder.instruction.encode("list_domain", { price: new anchor.BN(42) })],
+      [encodeBuyDomain(42), coder.instruction.encode("buy_domain", { price: new anchor.BN(42) })],
+      [encodeExpire(), coder.instruction.encode("expire", {})],
+      [encodeRelease(), coder.instruction.encode("release", {})],
+      [encodeMigrate(), coder.instruction.encode("migrate", {})],
+      [encodeSetManager(newOwner), coder.instruction.encode("set_manager", { manager: newOwner })],
+      [encodeSetManager(null), coder.instruction.encode("set_manager", { manager: null })],
+      [encodeWrap(), coder.instruction.encode("wrap", {})],
+      [encodeUnwrap(), coder.instruction.encode("unwrap", {})],
+      [encodeCommit(salt), coder.instruction.encode("commit", { hash: Array.from(salt) })],
+      [
+        encodeRegisterWithReveal("alice", 2, salt),
+        coder.instruction.encode("register_with_reveal", { name: "alice", years: 2, salt: Array.from(salt) }),
+      ],
+      [encodeCloseCommitment(), coder.instruction.encode("close_commitment", {})],
+    ];
+
+    for (const [ours, theirs] of cases) {
+      assert.deepEqual(Buffer.from(ours), theirs);
+    }
+  });
+
+  it("decodes instructions", () => {
+    const newOwner = anchor.web3.Keypair.generate().publicKey;
+
+    assert.deepEqual(decodeInstruction(encodeRegister("alice", 2)), {
+      name: "register",
+      args: { name: "alice", years: 2 },
+    });
+    assert.deepEqual(decodeInstruction(encodeRenew()), { name: "renew", args: { years: 1 } });
+    assert.deepEqual(decodeInstruction(encodeSetData("x")), { name: "setData", args: { data: "x" } });
+    assert.deepEqual(decodeInstruction(encodeReclaim()), { name: "reclaim", args: { years: 1 } });
+
+    const salt = new Uint8Array(32).fill(7);
+    assert.deepEqual(decodeInstruction(encodeRegisterWithReveal("alice", 1, salt)), {
+      name: "registerWithReveal",
+      args: { name: "alice", years: 1, salt },
+    });
+
+    const transfer = decodeInstruction(encodeTransfer(newOwner));
+    assert.equal(transfer.name, "transfer");
+    assert.ok(transfer.name === "transfer" && transfer.args.newOwner.equals(newOwner));
+  });
+
+  it("rejects truncated accounts", () => {
+    const bytes = encodeDomain(sample);
+    for (const len of [0, 7, 20, 44, bytes.length - 1]) {
+      assert.throws(() => decodeDomain(bytes.slice(0, len)), TruncatedDataError);
+    }
+  });
+
+  it("rejects accounts of another type", () => {
+    const bytes = encodeDomain(sample);
+    bytes[0] ^= 0xff;
+    assert.throws(() => decodeDomain(bytes), DiscriminatorMismatchError);
+  });
+
+  it("rejects malformed field values", () => {
+    const bytes = encodeDomain(sample);
+    const activeOffset = 8 + 32 + 4 + sample.name.length + 8 + 8;
+    bytes[activeOffset] = 2;
+    assert.throws(() => decodeDomain(bytes), MalformedDataError);
+
+    const badUtf8 = encodeRegister("abc");
+    // Last byte is `years`; corrupt the final byte of the name
+    badUtf8[badUtf8.length - 2] = 0xff;
+    assert.throws(() => decodeInstruction(badUtf8), MalformedDataError);
+
+    const trailing = Uint8Array.from([...encodeRenew(), 0]);
+    assert.throws(() => decodeInstruction(trailing), MalformedDataError);
+  });
+});
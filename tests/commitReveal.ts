@@ -0,0 +1,81 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { MAX_COMMITMENT_AGE_SECONDS, MIN_COMMITMENT_AGE_SECONDS, YEAR_SECONDS } from "../client/lifecycle";
+import { getDomainPDA } from "../client/pda";
+import { BankrunHarness, bankrunHarness, expectProgramError } from "./harness";
+
+// Two-phase registration, on a bank whose clock the tests move
+describe("Carv Domain Commit-Reveal", () => {
+  let h: BankrunHarness;
+
+  before(async () => {
+    h = await bankrunHarness();
+  });
+
+  it("rejects a reveal before the minimum commitment age", async () => {
+    const pending = await h.client.commit(h.uniqueName("early"));
+
+    await expectProgramError("CommitmentTooNew", () => h.client.registerWithReveal(pending.name, pending.salt));
+    assert.equal(await h.client.fetchDomain(pending.name), null);
+  });
+
+  it("rejects a reveal of someone else's commitment", async () => {
+    const pending = await h.client.commit(h.uniqueName("sniped"));
+    const thief = await h.fundedKeypair();
+    await h.warpBy(MIN_COMMITMENT_AGE_SECONDS);
+
+    // A front-runner who copied the name and salt from the reveal still signs as themselves
+    await expectProgramError("CommitmentMismatch", () =>
+      h.program.methods
+        .registerWithReveal(pending.name, 1, Array.from(pending.salt))
+        .accounts({
+          domain: getDomainPDA(pending.name, h.program.programId)[0],
+          commitment: pending.address,
+          owner: thief.publicKey,
+          config: h.client.configAddress,
+          treasury: h.treasury,
+          systemProgram: anchor.web3.SystemProgram.programId,
+        })
+        .signers([thief])
+        .rpc()
+    );
+
+    await h.client.registerWithReveal(pending.name, pending.salt);
+    assert.ok((await h.fetchDomain(pending.name)).owner.equals(h.wallet));
+    assert.equal(await h.context.banksClient.getAccount(pending.address), null);
+  });
+
+  it("rejects a reveal after the maximum commitment age", async () => {
+    const pending = await h.client.commit(h.uniqueName("stale"));
+    await h.warpBy(MAX_COMMITMENT_AGE_SECONDS + 1);
+
+    await expectProgramError("CommitmentExpired", () => h.client.registerWithReveal(pending.name, pending.salt));
+    assert.equal(await h.client.fetchDomain(pending.name), null);
+  });
+
+  it("returns the rent of an unrevealed commitment to its owner once it is too old", async () => {
+    const pending = await h.client.commit(h.uniqueName("abandoned"));
+    const stranger = await h.fundedKeypair();
+
+    await expectProgramError("CommitmentNotExpired", () => h.client.closeCommitment(pending.address));
+    await h.warpBy(MAX_COMMITMENT_AGE_SECONDS + 1);
+    await expectProgramError("NotOwner", () => h.client.closeCommitment(pending.address, { owner: stranger }));
+
+    const rent = (await h.context.banksClient.getAccount(pending.address))!.lamports;
+    const before = await h.context.banksClient.getBalance(h.wallet);
+    await h.client.closeCommitment(pending.address);
+    assert.equal(await h.context.banksClient.getAccount(pending.address), null);
+    // Less the transaction fee
+    assert.ok((await h.context.banksClient.getBalance(h.wallet)) > before + BigInt(rent) - 10_000n);
+  });
+
+  it("registers for the requested term once revealed", async () => {
+    const pending = await h.client.commit(h.uniqueName("revealed"));
+    await h.warpBy(MIN_COMMITMENT_AGE_SECONDS);
+
+    await h.client.registerWithReveal(pending.name, pending.salt, { years: 2 });
+    const domain = await h.fetchDomain(pending.name);
+    assert.ok(domain.owner.equals(h.wallet));
+    assert.equal(domain.expires.sub(domain.registered).toNumber(), 2 * YEAR_SECONDS);
+  });
+});
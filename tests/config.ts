@@ -0,0 +1,42 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { BPF_LOADER_UPGRADEABLE_PROGRAM_ID, getProgramDataAddress } from "../client/pda";
+import { BankrunHarness, bankrunHarness, expectProgramError } from "./harness";
+
+// Setting up a fresh deploy, on a bank that starts without a config
+describe("Carv Domain Config", () => {
+  let h: BankrunHarness;
+
+  before(async () => {
+    h = await bankrunHarness({ initialized: false });
+  });
+
+  // Bankrun loads the program without the upgradeable loader; write the ProgramData account
+  // a deploy would have left, naming `authority` as the upgrade authority
+  function setUpgradeAuthority(authority: anchor.web3.PublicKey) {
+    // UpgradeableLoaderState::ProgramData { slot: 0, upgrade_authority_address: Some(authority) }
+    const data = Buffer.alloc(4 + 8 + 1 + 32);
+    data.writeUInt32LE(3, 0);
+    data.writeUInt8(1, 12);
+    authority.toBuffer().copy(data, 13);
+    h.context.setAccount(getProgramDataAddress(h.program.programId), {
+      lamports: anchor.web3.LAMPORTS_PER_SOL,
+      data,
+      owner: BPF_LOADER_UPGRADEABLE_PROGRAM_ID,
+      executable: false,
+    });
+  }
+
+  it("lets only the upgrade authority initialize the config", async () => {
+    setUpgradeAuthority(h.wallet);
+    const stranger = await h.fundedKeypair();
+
+    await expectProgramError("NotAuthority", () => h.client.initializeConfig(stranger.publicKey, { owner: stranger }));
+    assert.equal(await h.client.getConfig(), null);
+
+    await h.client.initializeConfig(h.treasury);
+    const config = await h.client.getConfig();
+    assert.ok(config?.authority.equals(h.wallet));
+    assert.ok(config?.treasury.equals(h.treasury));
+  });
+});
@@ -0,0 +1,98 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BorshCoder } from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import idl from "../target/idl/carv_domain.json";
+import { BorshWriter, DiscriminatorMismatchError, EVENT_DISCRIMINATORS } from "../client/codec";
+import { decodeEvent, matchesEventFilter, parseEventLogs } from "../client/events";
+
+describe("Carv Domain Events", () => {
+  const coder = new BorshCoder(idl as anchor.Idl);
+  const programId = new anchor.web3.PublicKey((idl as any).address);
+  const otherProgram = anchor.web3.Keypair.generate().publicKey;
+  const domain = anchor.web3.Keypair.generate().publicKey;
+  const alice = anchor.web3.Keypair.generate().publicKey;
+  const bob = anchor.web3.Keypair.generate().publicKey;
+
+  const registeredBytes = new BorshWriter()
+    .bytes(EVENT_DISCRIMINATORS.domainRegistered)
+    .publicKey(domain)
+    .string("alice")
+    .option(bob, (w, previousOwner) => w.publicKey(previousOwner))
+    .publicKey(alice)
+    .publicKey(alice)
+    .i64(1_731_536_000)
+    .u8(2)
+    .u64(40_000_000)
+    .toBytes();
+
+  const transferredBytes = new BorshWriter()
+    .bytes(EVENT_DISCRIMINATORS.domainTransferred)
+    .publicKey(domain)
+    .string("alice")
+    .publicKey(alice)
+    .publicKey(bob)
+    .publicKey(alice)
+    .i64(1_731_536_000)
+    .u64(0)
+    .toBytes();
+
+  const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+  it("decodes events the same way as Anchor", () => {
+    const ours = decodeEvent(registeredBytes);
+    const theirs = coder.events.decode(toBase64(registeredBytes))!;
+
+    assert.equal(ours.name, "domainRegistered");
+    assert.equal(theirs.name, "DomainRegistered");
+    if (ours.name !== "domainRegistered") return;
+    assert.ok(ours.data.previousOwner!.equals(theirs.data.previousOwner as anchor.web3.PublicKey));
+    assert.ok(ours.data.owner.equals(alice));
+    assert.ok(ours.data.expires.eq(theirs.data.expires as anchor.BN));
+    assert.equal(ours.data.years, 2);
+    assert.ok(ours.data.cost.eqn(40_000_000));
+  });
+
+  it("decodes None options", () => {
+    const cleared = new BorshWriter()
+      .bytes(EVENT_DISCRIMINATORS.primaryUpdated)
+      .publicKey(alice)
+      .option(null, (w, d: anchor.web3.PublicKey) => w.publicKey(d))
+      .toBytes();
+    const event = decodeEvent(cleared);
+    assert.deepEqual(event, { name: "primaryUpdated", data: { owner: alice, domain: null } });
+  });
+
+  it("rejects unknown discriminators and trailing bytes", () => {
+    assert.throws(() => decodeEvent(new Uint8Array(16)), DiscriminatorMismatchError);
+    assert.throws(() => decodeEvent(registeredBytes.slice(0, 50)), /Truncated data/);
+    assert.throws(() => decodeEvent(Uint8Array.from([...transferredBytes, 0])), /trailing bytes/);
+  });
+
+  it("only parses events logged by the program itself", () => {
+    const logs = [
+      `Program ${programId} invoke [1]`,
+      "Program log: Instruction: Register",
+      `Program ${otherProgram} invoke [2]`,
+      `Program data: ${toBase64(transferredBytes)}`,
+      `Program ${otherProgram} success`,
+      `Program data: ${toBase64(registeredBytes)}`,
+      "Program data: bm90IGFuIGV2ZW50",
+      `Program ${programId} consumed 12000 of 200000 compute units`,
+      `Program ${programId} success`,
+    ];
+    assert.deepEqual(
+      parseEventLogs(logs, programId).map((e) => e.name),
+      ["domainRegistered"]
+    );
+  });
+
+  it("filters by kind, domain and wallet", () => {
+    const event = decodeEvent(transferredBytes);
+    assert.ok(matchesEventFilter(event, {}));
+    assert.ok(matchesEventFilter(event, { events: ["domainTransferred"], domain, wallet: bob }));
+    assert.ok(matchesEventFilter(event, { wallet: alice }));
+    assert.ok(!matchesEventFilter(event, { events: ["domainRenewed"] }));
+    assert.ok(!matchesEventFilter(event, { domain: alice }));
+    assert.ok(!matchesEventFilter(event, { wallet: domain }));
+  });
+});
@@ -0,0 +1,170 @@
+import { strict as assert } from "assert";
+import { AUTO_RENEW_WINDOW_SECONDS, GRACE_PERIOD_SECONDS, getDomainStatus, YEAR_SECONDS } from "../client/lifecycle";
+import { RecordKind } from "../client/records";
+import { BankrunHarness, bankrunHarness, expectProgramError } from "./harness";
+
+// Expiry, grace and reclaim paths, on a bank whose clock the tests move
+describe("Carv Domain Expiry", () => {
+  let h: BankrunHarness;
+
+  before(async () => {
+    h = await bankrunHarness();
+  });
+
+  const statusOf = async (name: string) => getDomainStatus(await h.fetchDomain(name), await h.now());
+
+  it("keeps a name active until its expiry second", async () => {
+    const name = await h.registeredDomain("deadline");
+    const { expires } = await h.fetchDomain(name);
+
+    await h.warpTo(expires.toNumber() - 1);
+    await h.client.setData(name, "still mine");
+    assert.equal(await statusOf(name), "active");
+
+    await h.warpTo(expires.toNumber());
+    assert.equal(await statusOf(name), "grace");
+    await expectProgramError("Expired", () => h.client.setData(name, "too late"));
+    assert.equal((await h.fetchDomain(name)).data, "still mine");
+  });
+
+  it("flags a name inactive only once it has expired", async () => {
+    const name = await h.registeredDomain("flagged");
+    const { expires } = await h.fetchDomain(name);
+
+    await expectProgramError("NotExpired", () => h.client.expire(name));
+
+    await h.warpTo(expires.toNumber());
+    await h.client.expire(name);
+    assert.equal((await h.fetchDomain(name)).active, false);
+  });
+
+  it("renews during the grace period from the old expiry", async () => {
+    const name = await h.registeredDomain("grace");
+    const { expires } = await h.fetchDomain(name);
+
+    await h.warpTo(expires.toNumber() + GRACE_PERIOD_SECONDS - 1);
+    await h.client.expire(name);
+    await h.client.renew(name);
+
+    const renewed = await h.fetchDomain(name);
+    assert.equal(renewed.expires.sub(expires).toNumber(), YEAR_SECONDS);
+    assert.equal(renewed.active, true);
+    assert.equal(await statusOf(name), "active");
+  });
+
+  it("rejects renewal once the grace period has passed", async () => {
+    const name = await h.registeredDomain("lapsed");
+    const { expires } = await h.fetchDomain(name);
+
+    await h.warpTo(expires.toNumber() + GRACE_PERIOD_SECONDS);
+    assert.equal(await statusOf(name), "expired");
+    await expectProgramError("Expired", () => h.client.renew(name));
+  });
+
+  it("lets anyone reclaim a lapsed name, dropping its old data", async () => {
+    const name = await h.registeredDomain("reclaimed");
+    const member = await h.fundedKeypair();
+    const newOwner = await h.fundedKeypair();
+    await h.client.setData(name, '{"old":true}');
+    await h.client.setManager(name, member.publicKey);
+    await h.client.setRecord(name, RecordKind.Url, "https://old.example");
+    await h.client.createSubdomain(name, "team", member.publicKey);
+    const { expires } = await h.fetchDomain(name);
+
+    await h.warpTo(expires.toNumber() + GRACE_PERIOD_SECONDS - 1);
+    await expectProgramError("NotReclaimable", () => h.client.reclaim(name, { owner: newOwner }));
+
+    await h.warpBy(1);
+    await h.client.reclaim(name, { owner: newOwner });
+
+    const domain = await h.fetchDomain(name);
+    assert.ok(domain.owner.equals(newOwner.publicKey));
+    assert.equal(domain.registered.toNumber(), await h.now());
+    assert.equal(domain.expires.sub(domain.registered).toNumber(), YEAR_SECONDS);
+    assert.equal(domain.data, "");
+    assert.equal(domain.manager, null);
+    assert.equal(await h.client.getRecord(name, RecordKind.Url), null);
+    await expectProgramError("Expired", () =>
+      h.client.setSubdomainData(`team.${name}`, "still here", { owner: member })
+    );
+    await expectProgramError("NotOwner", () => h.client.renew(name));
+  });
+
+  it("releases only after the registration second, leaving no records behind", async () => {
+    const name = await h.registeredDomain("released");
+    await h.client.setRecord(name, RecordKind.Url, "https://old.example");
+
+    await expectProgramError("ReleaseTooSoon", () => h.client.release(name));
+    await h.warpBy(1);
+    await h.client.release(name);
+    assert.equal(await h.client.fetchDomain(name), null);
+
+    const newOwner = await h.fundedKeypair();
+    await h.client.register(name, { owner: newOwner });
+    assert.ok((await h.fetchDomain(name)).owner.equals(newOwner.publicKey));
+    assert.equal(await h.client.getRecord(name, RecordKind.Url), null);
+  });
+
+  it("lets the reclaimer start over with fresh records", async () => {
+    const name = await h.registeredDomain("restart");
+    const newOwner = await h.fundedKeypair();
+    const { expires } = await h.fetchDomain(name);
+
+    await h.warpTo(expires.toNumber() + GRACE_PERIOD_SECONDS);
+    await h.client.reclaim(name, { owner: newOwner, years: 2 });
+    await h.client.setRecord(name, RecordKind.Url, "https://new.example", { owner: newOwner });
+
+    assert.equal(await h.client.getRecord(name, RecordKind.Url), "https://new.example");
+    const domain = await h.fetchDomain(name);
+    assert.ok(domain.owner.equals(newOwner.publicKey));
+    assert.equal(domain.expires.sub(domain.registered).toNumber(), 2 * YEAR_SECONDS);
+    assert.equal(await statusOf(name), "active");
+  });
+
+  it("lets anyone renew from a funded vault once the name is near expiry", async () => {
+    const name = await h.registeredDomain("cranked");
+    const cost = await h.client.quotePrice(name);
+    const { expires } = await h.fetchDomain(name);
+    await h.client.depositRenewal(name, 2 * cost);
+    const treasuryBalance = async () => (await h.provider.connection.getAccountInfo(h.treasury))!.lamports;
+
+    await h.warpTo(expires.toNumber() - AUTO_RENEW_WINDOW_SECONDS - 1);
+    await expectProgramError("RenewTooEarly", () => h.client.crankRenew(name));
+
+    await h.warpTo(expires.toNumber() - AUTO_RENEW_WINDOW_SECONDS);
+    const before = await treasuryBalance();
+    await h.client.crankRenew(name);
+    assert.equal((await treasuryBalance()) - before, cost);
+    assert.equal((await h.fetchDomain(name)).expires.sub(expires).toNumber(), YEAR_SECONDS);
+
+    // Renewed out of the window until next year
+    await expectProgramError("RenewTooEarly", () => h.client.crankRenew(name));
+  });
+
+  it("renews from the vault during the grace period but not after", async () => {
+    const name = await h.registeredDomain("cranked-late");
+    const { expires } = await h.fetchDomain(name);
+    await h.client.depositRenewal(name, await h.client.quotePrice(name));
+
+    await h.warpTo(expires.toNumber() + GRACE_PERIOD_SECONDS);
+    await expectProgramError("Expired", () => h.client.crankRenew(name));
+
+    const other = await h.registeredDomain("cranked-grace");
+    const otherExpires = (await h.fetchDomain(other)).expires;
+    await h.client.depositRenewal(other, await h.client.quotePrice(other));
+    await h.warpTo(otherExpires.toNumber() + 1);
+    await h.client.crankRenew(other);
+    assert.equal((await h.fetchDomain(other)).expires.sub(otherExpires).toNumber(), YEAR_SECONDS);
+    assert.equal(await statusOf(other), "active");
+  });
+
+  it("rejects a crank when the vault cannot cover a year", async () => {
+    const name = await h.registeredDomain("underfunded");
+    const { expires } = await h.fetchDomain(name);
+    await h.client.depositRenewal(name, (await h.client.quotePrice(name)) - 1);
+
+    await h.warpTo(expires.toNumber());
+    await expectProgramError("VaultEmpty", () => h.client.crankRenew(name));
+    assert.ok((await h.fetchDomain(name)).expires.eq(expires));
+  });
+});
@@ -0,0 +1,223 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { NameResolver } from "../gateway/resolver";
+import { createGatewayServer } from "../gateway/server";
+import { decodeDomain, encodeDomain, encodeSubdomain } from "../client/codec";
+import { getDomainPDA, getSubdomainPDA } from "../client/pda";
+import { RECORD_KEYS, RecordKind } from "../client/records";
+import { Harness, localHarness, waitFor } from "./harness";
+
+// Runs against the local validator started by `anchor test`
+describe("Carv Domain Gateway", () => {
+  let h: Harness;
+  let name: string;
+  let resolver: NameResolver;
+  let server: Server;
+  let base: string;
+
+  const get = (path: string) => fetch(`${base}${path}`, { redirect: "manual" });
+
+  before(async () => {
+    h = await localHarness();
+    name = await h.registeredDomain("gateway");
+    // Long enough that only an account change can refresh a lookup during the suite
+    resolver = new NameResolver(h.provider.connection, h.program.programId, { ttlMs: 600_000 });
+    server = createGatewayServer(resolver).listen(0);
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    resolver.close();
+  });
+
+  it("resolves a name to its owner, expiry and records", async () => {
+    await h.client.setRecord(name, RecordKind.Github, "carv");
+
+    const res = await get(`/resolve/${name.toUpperCase()}.carv`);
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    const domain = await h.fetchDomain(name);
+    assert.equal(body.name, name);
+    assert.equal(body.owner, h.wallet.toBase58());
+    assert.equal(body.expires, domain.expires.toNumber());
+    assert.equal(body.status, "active");
+    assert.deepEqual(body.records, { github: "carv" });
+  });
+
+  it("refreshes a cached lookup when the domain or its records change", async () => {
+    await get(`/resolve/${name}`);
+    await h.client.setData(name, '{"v":2}');
+    await h.client.setRecord(name, RecordKind.Url, "https://carv.io/");
+
+    let body: any;
+    await waitFor(async () => {
+      body = await (await get(`/resolve/${name}`)).json();
+      return body.data === '{"v":2}' && body.records.url === "https://carv.io/";
+    });
+    assert.equal(body.data, '{"v":2}');
+    assert.equal(body.records.url, "https://carv.io/");
+  });
+
+  it("redirects to the url record", async () => {
+    const res = await get(`/go/${name}`);
+    assert.equal(res.status, 302);
+    assert.equal(res.headers.get("location"), "https://carv.io/");
+
+    const bare = await h.registeredDomain("no-url");
+    assert.equal((await get(`/go/${bare}`)).status, 404);
+  });
+
+  it("resolves a subdomain to its own owner and its parent's expiry", async () => {
+    const holder = anchor.web3.Keypair.generate().publicKey;
+    await h.client.createSubdomain(name, "docs", holder);
+    await h.client.setSubdomainData(`docs.${name}`, '{"site":"docs"}');
+
+    const res = await get(`/resolve/DOCS.${name}.carv`);
+    assert.equal(res.status, 200);
+    const body = await res.json();
+    assert.equal(body.name, `docs.${name}`);
+    assert.equal(body.address, h.client.subdomainAddress(`docs.${name}`).toBase58());
+    assert.equal(body.owner, holder.toBase58());
+    assert.equal(body.expires, (await h.fetchDomain(name)).expires.toNumber());
+    assert.equal(body.data, '{"site":"docs"}');
+    assert.equal((await get(`/resolve/missing.${name}`)).status, 404);
+  });
+
+  it("resolves a wallet's primary name", async () => {
+    await h.client.setPrimaryName(name);
+
+    const body = await (await get(`/reverse/${h.wallet.toBase58()}`)).json();
+    assert.deepEqual(body, { wallet: h.wallet.toBase58(), name });
+  });
+
+  it("rejects unknown names, bad input and other methods", async () => {
+    assert.equal((await get(`/resolve/${h.uniqueName("missing")}`)).status, 404);
+    assert.equal((await get("/resolve/Bad_Name")).status, 400);
+    assert.equal((await get("/resolve/%E0%A4%A")).status, 400);
+    assert.equal((await get(`/reverse/${anchor.web3.Keypair.generate().publicKey.toBase58()}`)).status, 404);
+    assert.equal((await get("/reverse/not-a-key")).status, 400);
+    assert.equal((await fetch(`${base}/resolve/${name}`, { method: "POST" })).status, 405);
+  });
+});
+
+// Stands in for the RPC node: serves fixed accounts and tracks open subscriptions
+class FakeConnection {
+  readonly accounts = new Map<string, Uint8Array>();
+  readonly subscriptions = new Set<number>();
+  loads = 0;
+  private nextId = 0;
+
+  async getMultipleAccountsInfo(addresses: anchor.web3.PublicKey[]) {
+    this.loads++;
+    return addresses.map((address) => {
+      const data = this.accounts.get(address.toBase58());
+      return data ? { data: Buffer.from(data) } : null;
+    });
+  }
+
+  onAccountChange() {
+    this.subscriptions.add(++this.nextId);
+    return this.nextId;
+  }
+
+  async removeAccountChangeListener(id: number) {
+    this.subscriptions.delete(id);
+  }
+}
+
+describe("Carv Domain Gateway cache", () => {
+  const programId = anchor.web3.Keypair.generate().publicKey;
+  // A domain plus one per record kind
+  const perName = 1 + Object.keys(RECORD_KEYS).length;
+
+  let connection: FakeConnection;
+  const resolverWith = (options: ConstructorParameters<typeof NameResolver>[2]) =>
+    new NameResolver(connection as unknown as anchor.web3.Connection, programId, options);
+  const register = (name: string) =>
+    connection.accounts.set(
+      getDomainPDA(name, programId)[0].toBase58(),
+      encodeDomain({
+        owner: anchor.web3.Keypair.generate().publicKey,
+        name,
+        registered: new anchor.BN(1_000),
+        expires: new anchor.BN(2_000),
+        active: true,
+        data: "",
+        manager: null,
+        version: 2,
+      })
+    );
+
+  beforeEach(() => {
+    connection = new FakeConnection();
+  });
+
+  it("does not watch names that are not registered", async () => {
+    const resolver = resolverWith({});
+    for (let i = 0; i < 20; i++) assert.equal(await resolver.resolve(`missing-${i}`), null);
+    assert.equal(connection.subscriptions.size, 0);
+    resolver.close();
+  });
+
+  it("evicts the least recently used lookup and its subscriptions", async () => {
+    const resolver = resolverWith({ maxEntries: 2 });
+    ["alpha", "bravo", "charlie"].forEach(register);
+
+    await resolver.resolve("alpha");
+    await resolver.resolve("bravo");
+    await resolver.resolve("alpha");
+    await resolver.resolve("charlie");
+    assert.equal(connection.subscriptions.size, 2 * perName);
+
+    // alpha was used more recently than bravo, so bravo went
+    const loads = connection.loads;
+    await resolver.resolve("alpha");
+    assert.equal(connection.loads, loads);
+    await resolver.resolve("bravo");
+    assert.equal(connection.loads, loads + 1);
+
+    resolver.close();
+    assert.equal(connection.subscriptions.size, 0);
+  });
+
+  it("caps subscriptions across lookups", async () => {
+    const resolver = resolverWith({ maxSubscriptions: perName });
+    ["alpha", "bravo"].forEach(register);
+
+    await resolver.resolve("alpha");
+    await resolver.resolve("bravo");
+    assert.equal(connection.subscriptions.size, perName);
+    resolver.close();
+  });
+
+  it("stops resolving a subdomain once its parent is registered again", async () => {
+    const resolver = resolverWith({});
+    const parent = getDomainPDA("alpha", programId)[0];
+    register("alpha");
+    connection.accounts.set(
+      getSubdomainPDA(parent, "docs", programId)[0].toBase58(),
+      encodeSubdomain({
+        parent,
+        owner: anchor.web3.Keypair.generate().publicKey,
+        label: "docs",
+        created: new anchor.BN(1_500),
+        parentRegistered: new anchor.BN(1_000),
+        data: "",
+      })
+    );
+
+    const resolved = await resolver.resolve("docs.alpha");
+    assert.equal(resolved?.name, "docs.alpha");
+    assert.equal(resolved?.expires.toNumber(), 2_000);
+
+    // Reclaimed after expiring, which leaves the old subdomain account behind
+    resolver.close();
+    const domain = decodeDomain(connection.accounts.get(parent.toBase58())!);
+    connection.accounts.set(parent.toBase58(), encodeDomain({ ...domain, registered: new anchor.BN(3_000) }));
+    assert.equal(await resolver.resolve("docs.alpha"), null);
+    resolver.close();
+  });
+});
@@ -0,0 +1,185 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { BankrunProvider } from "anchor-bankrun";
+import { Clock, ProgramTestContext, startAnchor } from "solana-bankrun";
+import { CarvDomain } from "../target/types/carv_domain";
+import idl from "../target/idl/carv_domain.json";
+import { CarvDomainClient, TermOptions } from "../client/carvDomainClient";
+import { Domain, encodeConfig } from "../client/codec";
+import { getProgramErrorName, ProgramErrorName } from "../client/errors";
+import { getDomainPDA } from "../client/pda";
+import { DEFAULT_PRICES } from "../client/pricing";
+
+// Fixtures shared by the integration suites. `localHarness` talks to the validator
+// started by `anchor test`; `bankrunHarness` runs the program in-process with a clock
+// the test controls, for expiry, grace and reclaim paths.
+
+type Funder = (wallet: anchor.web3.PublicKey, lamports: number) => Promise<void>;
+
+export class Harness {
+  private counter = 0;
+
+  constructor(
+    readonly provider: anchor.Provider,
+    readonly program: Program<CarvDomain>,
+    readonly client: CarvDomainClient,
+    readonly treasury: anchor.web3.PublicKey,
+    // Keeps names from different runs against the same validator apart; 0 on a fresh bank
+    private readonly runSeed: number,
+    private readonly funder: Funder
+  ) {}
+
+  get wallet() {
+    return this.provider.publicKey!;
+  }
+
+  // "prefix-<run><n>": unique within the run and across runs on one validator
+  uniqueName(prefix: string) {
+    return `${prefix}-${this.runSeed.toString(36)}${(++this.counter).toString(36)}`;
+  }
+
+  // A name of exactly `length` characters, for the short-name price tiers
+  uniqueShortName(length: number) {
+    return ((this.runSeed + ++this.counter) % 36 ** length).toString(36).padStart(length, "0");
+  }
+
+  async fund(wallet: anchor.web3.PublicKey, lamports = anchor.web3.LAMPORTS_PER_SOL) {
+    await this.funder(wallet, lamports);
+  }
+
+  async fundedKeypair(lamports = anchor.web3.LAMPORTS_PER_SOL) {
+    const keypair = anchor.web3.Keypair.generate();
+    await this.fund(keypair.publicKey, lamports);
+    return keypair;
+  }
+
+  // Registers a fresh name for `opts.owner` (default: the provider wallet) and returns it
+  async registeredDomain(prefix: string, opts: TermOptions = {}) {
+    const name = this.uniqueName(prefix);
+    await this.client.register(name, opts);
+    return name;
+  }
+
+  // Wait until the cluster clock has passed `unixTimestamp`
+  async waitForClock(unixTimestamp: number) {
+    const connection = this.provider.connection;
+    await waitFor(async () => ((await connection.getBlockTime(await connection.getSlot())) ?? 0) > unixTimestamp);
+  }
+
+  async fetchDomain(name: string): Promise<Domain> {
+    const domain = await this.client.fetchDomain(name);
+    assert.ok(domain, `${name} is not registered`);
+    return domain;
+  }
+
+  // Sends `register` without the client's name validation, to reach the program's checks
+  registerRaw(name: string, years = 1) {
+    return this.program.methods
+      .register(name, years)
+      .accounts({
+        domain: getDomainPDA(name, this.program.programId)[0],
+        owner: this.wallet,
+        config: this.client.configAddress,
+        treasury: this.treasury,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .rpc();
+  }
+}
+
+export class BankrunHarness extends Harness {
+  constructor(
+    readonly context: ProgramTestContext,
+    provider: BankrunProvider,
+    program: Program<CarvDomain>,
+    client: CarvDomainClient,
+    treasury: anchor.web3.PublicKey
+  ) {
+    super(provider, program, client, treasury, 0, async (wallet, lamports) => {
+      context.setAccount(wallet, {
+        lamports,
+        data: Buffer.alloc(0),
+        owner: anchor.web3.SystemProgram.programId,
+        executable: false,
+      });
+    });
+  }
+
+  // Unix time as the program sees it
+  async now() {
+    return Number((await this.context.banksClient.getClock()).unixTimestamp);
+  }
+
+  // Also moves to the next slot, so a retried transaction gets a fresh blockhash
+  async warpTo(unixTimestamp: number) {
+    const clock = await this.context.banksClient.getClock();
+    const slot = clock.slot + 1n;
+    this.context.warpToSlot(slot);
+    this.context.setClock(
+      new Clock(slot, clock.epochStartTimestamp, clock.epoch, clock.leaderScheduleEpoch, BigInt(unixTimestamp))
+    );
+  }
+
+  async warpBy(seconds: number) {
+    await this.warpTo((await this.now()) + seconds);
+  }
+}
+
+async function withConfig(client: CarvDomainClient) {
+  // The config is a singleton; reuse it when the validator already has one
+  if (!(await client.getConfig())) {
+    await client.initializeConfig(anchor.web3.Keypair.generate().publicKey);
+  }
+  return client.getTreasury();
+}
+
+export async function localHarness() {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+  const program = anchor.workspace.CarvDomain as Program<CarvDomain>;
+  const client = new CarvDomainClient(provider, { program });
+  const treasury = await withConfig(client);
+  const runSeed = await provider.connection.getSlot();
+
+  return new Harness(provider, program, client, treasury, runSeed, async (wallet, lamports) => {
+    await provider.connection.confirmTransaction(await provider.connection.requestAirdrop(wallet, lamports));
+  });
+}
+
+// A fresh bank per call, loaded from the workspace's built program. Bankrun loads it without
+// an upgrade authority to run initializeConfig, so the config is written straight into the bank
+// unless `initialized` is false.
+export async function bankrunHarness({ initialized = true } = {}) {
+  const context = await startAnchor(".", [], []);
+  const provider = new BankrunProvider(context);
+  const program = new Program<CarvDomain>(idl as CarvDomain, provider);
+  const client = new CarvDomainClient(provider, { program });
+  const treasury = anchor.web3.Keypair.generate().publicKey;
+  if (initialized) {
+    const data = encodeConfig({ authority: provider.wallet.publicKey, treasury, ...DEFAULT_PRICES, paused: false });
+    const rent = await context.banksClient.getRent();
+    context.setAccount(client.configAddress, {
+      lamports: Number(rent.minimumBalance(BigInt(data.length))),
+      data: Buffer.from(data),
+      owner: program.programId,
+      executable: false,
+    });
+  }
+  return new BankrunHarness(context, provider, program, client, treasury);
+}
+
+// Fails unless `fn` rejects with this program error
+export async function expectProgramError(expected: ProgramErrorName, fn: () => Promise<unknown>) {
+  await assert.rejects(fn, (error) => {
+    assert.equal(getProgramErrorName(error), expected);
+    return true;
+  });
+}
+
+// Polls `check` every 100ms until it returns true or `timeoutMs` passes
+export async function waitFor(check: () => boolean | Promise<boolean>, timeoutMs = 5_000) {
+  for (const start = Date.now(); !(await check()) && Date.now() - start < timeoutMs; ) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
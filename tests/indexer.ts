@@ -0,0 +1,161 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { AddressInfo } from "net";
+import { DomainIndexer } from "../indexer/indexer";
+import { createServer } from "../indexer/server";
+import { DomainStore } from "../indexer/store";
+import { Harness, localHarness } from "./harness";
+
+// Runs against the local validator started by `anchor test`
+describe("Carv Domain Indexer", () => {
+  const newOwner = anchor.web3.Keypair.generate().publicKey;
+
+  let h: Harness;
+  let name: string;
+  let store: DomainStore;
+  let indexer: DomainIndexer;
+
+  before(async () => {
+    h = await localHarness();
+    name = h.uniqueName("indexed");
+    store = new DomainStore(":memory:");
+    indexer = new DomainIndexer(h.provider.connection, h.program.programId, store, { historyLimit: 50 });
+  });
+
+  after(() => store.close());
+
+  it("backfills existing domains and follows on from there", async () => {
+    await h.client.register(name);
+    await indexer.backfill();
+
+    const row = store.findByName(name);
+    assert.ok(row);
+    assert.equal(row.owner, h.wallet.toBase58());
+    assert.equal(row.address, h.client.domainAddress(name).toBase58());
+
+    // The registration is already reflected in the backfill, so it is not replayed
+    assert.ok(store.getCursor());
+    assert.equal(await indexer.sync(), 0);
+    assert.deepEqual(store.history(row.address), []);
+  });
+
+  it("follows renew, set_data and transfer", async () => {
+    await h.client.renew(name);
+    await h.client.setData(name, '{"site":"carv.io"}');
+    await h.client.transfer(name, newOwner);
+    await indexer.sync();
+
+    const row = store.findByName(name)!;
+    assert.equal(row.owner, newOwner.toBase58());
+    assert.equal(row.data, '{"site":"carv.io"}');
+    assert.deepEqual(store.findByOwner(newOwner.toBase58()).map((r) => r.name), [name]);
+
+    const history = store.history(row.address);
+    assert.deepEqual(
+      history.map((e) => e.kind),
+      ["renew", "setData", "transfer"]
+    );
+    // Taken from the events each instruction emitted
+    assert.ok(history.every((e) => e.payer === h.wallet.toBase58()));
+    assert.equal(history[2].expires, row.expires);
+  });
+
+  it("does not index a transaction twice", async () => {
+    await indexer.sync();
+    const address = h.client.domainAddress(name).toBase58();
+    assert.equal(store.history(address).length, 3);
+  });
+
+  it("indexes instructions another program invoked", async () => {
+    const invoked = await h.registeredDomain("invoked");
+    await indexer.sync();
+    const signature = await h.client.setData(invoked, '{"via":"cpi"}');
+
+    // Replay the same call as if made by a wrapper program at the first instruction
+    const connection = h.provider.connection;
+    const tx = (await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    }))!;
+    const message = tx.transaction.message;
+    const call = message.compiledInstructions.find((ix) =>
+      message.staticAccountKeys[ix.programIdIndex].equals(h.program.programId)
+    )!;
+    const relayed = {
+      ...tx,
+      transaction: {
+        ...tx.transaction,
+        message: Object.create(message, {
+          compiledInstructions: { value: [{ programIdIndex: 0, accountKeyIndexes: [], data: new Uint8Array() }] },
+        }),
+      },
+      meta: {
+        ...tx.meta!,
+        innerInstructions: [
+          {
+            index: 0,
+            instructions: [
+              {
+                programIdIndex: call.programIdIndex,
+                accounts: call.accountKeyIndexes,
+                data: anchor.utils.bytes.bs58.encode(call.data),
+              },
+            ],
+          },
+        ],
+      },
+    };
+    const wrapper = Object.create(connection, { getTransaction: { value: async () => relayed } });
+    await new DomainIndexer(wrapper, h.program.programId, store).sync();
+
+    const history = store.history(h.client.domainAddress(invoked).toBase58());
+    assert.deepEqual(
+      history.map((e) => e.kind),
+      ["register", "setData"]
+    );
+    // Counted after the wrapper instruction that invoked it
+    assert.equal(history[1].index, 1);
+  });
+
+  it("stops at a transaction the node cannot return yet and retries it", async () => {
+    await indexer.sync();
+    const cursor = store.getCursor();
+    const later = await h.registeredDomain("lagging");
+
+    const connection = h.provider.connection;
+    const lagging = Object.create(connection, { getTransaction: { value: async () => null } });
+    const behind = new DomainIndexer(lagging, h.program.programId, store, { historyLimit: 50 });
+    assert.equal(await behind.sync(), 0);
+    assert.deepEqual(store.getCursor(), cursor);
+    assert.equal(store.findByName(later), null);
+
+    assert.ok((await indexer.sync()) > 0);
+    assert.ok(store.findByName(later));
+  });
+
+  it("serves lookups over HTTP", async () => {
+    const server = createServer(store).listen(0);
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const domain = await (await fetch(`${base}/domains/${name.toUpperCase()}.carv`)).json();
+      assert.equal(domain.name, name);
+      assert.equal(domain.status, "active");
+
+      const history = await (await fetch(`${base}/domains/${name}/history`)).json();
+      assert.equal(history[2].args.newOwner, newOwner.toBase58());
+
+      const owned = await (await fetch(`${base}/owners/${newOwner.toBase58()}/domains`)).json();
+      assert.deepEqual(owned.map((d: any) => d.name), [name]);
+
+      const expiring = await (await fetch(`${base}/expiring?days=3650`)).json();
+      assert.ok(expiring.some((d: any) => d.name === name));
+
+      assert.equal((await fetch(`${base}/domains/missing-name`)).status, 404);
+      assert.equal((await fetch(`${base}/domains/Bad_Name`)).status, 400);
+      assert.equal((await fetch(`${base}/domains/%E0%A4%A`)).status, 400);
+      assert.equal((await fetch(`${base}/recent?limit=0`)).status, 400);
+    } finally {
+      server.close();
+    }
+  });
+});
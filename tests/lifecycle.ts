@@ -0,0 +1,35 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { Domain } from "../client/codec";
+import { GRACE_PERIOD_SECONDS, getDomainStatus, isRegistrable } from "../client/lifecycle";
+
+describe("Carv Domain Lifecycle", () => {
+  const domain: Domain = {
+    owner: anchor.web3.Keypair.generate().publicKey,
+    name: "alice",
+    registered: new anchor.BN(1_000),
+    expires: new anchor.BN(10_000),
+    active: true,
+    data: "",
+    manager: null,
+    version: 2,
+  };
+
+  it("reports available for unregistered names", () => {
+    assert.equal(getDomainStatus(null, 0), "available");
+  });
+
+  it("moves from active to grace to expired", () => {
+    assert.equal(getDomainStatus(domain, 9_999), "active");
+    assert.equal(getDomainStatus(domain, 10_000), "grace");
+    assert.equal(getDomainStatus(domain, 10_000 + GRACE_PERIOD_SECONDS - 1), "grace");
+    assert.equal(getDomainStatus(domain, 10_000 + GRACE_PERIOD_SECONDS), "expired");
+  });
+
+  it("only lets anyone register available or expired names", () => {
+    assert.equal(isRegistrable("available"), true);
+    assert.equal(isRegistrable("expired"), true);
+    assert.equal(isRegistrable("grace"), false);
+    assert.equal(isRegistrable("active"), false);
+  });
+});
@@ -0,0 +1,110 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { decodeDomain, DOMAIN_ACCOUNT_SIZES, DOMAIN_VERSION, encodeDomain } from "../client/codec";
+import { YEAR_SECONDS } from "../client/lifecycle";
+import { getDomainPDA } from "../client/pda";
+import { BankrunHarness, bankrunHarness, expectProgramError } from "./harness";
+
+// Domains left behind by earlier program versions, written straight into the bank
+describe("Carv Domain Migration", () => {
+  let h: BankrunHarness;
+
+  before(async () => {
+    h = await bankrunHarness();
+  });
+
+  const rentOf = async (size: number) => Number((await h.context.banksClient.getRent()).minimumBalance(BigInt(size)));
+  const lamportsOf = async (address: anchor.web3.PublicKey) =>
+    (await h.provider.connection.getAccountInfo(address))!.lamports;
+
+  // v1 is the current layout without the trailing version byte; v0 also lacks the manager.
+  // The account sits at the PDA of `name` exactly as given, as older programs allowed.
+  const legacyDomain = async (prefix: string, version: 0 | 1, manager: anchor.web3.PublicKey | null = null) => {
+    const name = h.uniqueName(prefix);
+    const now = await h.now();
+    const current = encodeDomain({
+      owner: h.wallet,
+      name,
+      registered: new anchor.BN(now),
+      expires: new anchor.BN(now + YEAR_SECONDS),
+      active: true,
+      data: '{"layout":"legacy"}',
+      manager: version === 0 ? null : manager,
+      version: DOMAIN_VERSION,
+    });
+    const size = DOMAIN_ACCOUNT_SIZES[version];
+    const data = Buffer.alloc(size);
+    data.set(current.subarray(0, current.length - (version === 0 ? 2 : 1)));
+
+    h.context.setAccount(getDomainPDA(name, h.program.programId)[0], {
+      lamports: await rentOf(size),
+      data,
+      owner: h.program.programId,
+      executable: false,
+    });
+    return name;
+  };
+
+  it("rejects writes to a domain in an older layout", async () => {
+    const name = await legacyDomain("outdated", 1);
+
+    await expectProgramError("OutdatedAccount", () => h.client.setData(name, "{}"));
+    await expectProgramError("OutdatedAccount", () => h.client.renew(name));
+    assert.equal((await h.fetchDomain(name)).version, 1);
+  });
+
+  for (const version of [0, 1] as const) {
+    it(`migrates a version ${version} domain in place, paid by any signer`, async () => {
+      const manager = anchor.web3.Keypair.generate().publicKey;
+      const name = await legacyDomain(`layout-v${version}`, version, manager);
+      const address = h.client.domainAddress(name);
+      const payer = await h.fundedKeypair();
+      const before = await lamportsOf(payer.publicKey);
+
+      await h.client.migrate(name, { owner: payer });
+
+      const info = (await h.provider.connection.getAccountInfo(address))!;
+      assert.equal(info.data.length, DOMAIN_ACCOUNT_SIZES[DOMAIN_VERSION]);
+      assert.equal(info.lamports, await rentOf(info.data.length));
+      // The payer covers exactly the rent of the added bytes
+      const added = info.lamports - (await rentOf(DOMAIN_ACCOUNT_SIZES[version]));
+      assert.equal(before - (await lamportsOf(payer.publicKey)), added);
+
+      const domain = decodeDomain(info.data);
+      assert.equal(domain.version, DOMAIN_VERSION);
+      assert.equal(domain.name, name);
+      assert.ok(domain.owner.equals(h.wallet));
+      assert.equal(domain.data, '{"layout":"legacy"}');
+      if (version === 0) assert.equal(domain.manager, null);
+      else assert.ok(domain.manager!.equals(manager));
+
+      await h.client.setData(name, '{"layout":"current"}');
+      assert.equal((await h.fetchDomain(name)).data, '{"layout":"current"}');
+      await expectProgramError("AlreadyMigrated", () => h.client.migrate(name));
+    });
+  }
+
+  it("migrates a legacy name that today's rules would rewrite, by its address", async () => {
+    const name = await legacyDomain("Legacy-Case", 0);
+    const address = getDomainPDA(name, h.program.programId)[0];
+    assert.ok(!address.equals(h.client.domainAddress(name)));
+
+    const account = decodeDomain((await h.provider.connection.getAccountInfo(address))!.data);
+    const [result] = await h.client.migrateOutdated([{ publicKey: address, account }]);
+    assert.equal(result.error, undefined);
+    assert.equal(result.name, name);
+
+    const info = (await h.provider.connection.getAccountInfo(address))!;
+    assert.equal(info.data.length, DOMAIN_ACCOUNT_SIZES[DOMAIN_VERSION]);
+    assert.equal(decodeDomain(info.data).name, name);
+  });
+
+  it("registers new domains in the current layout", async () => {
+    const name = await h.registeredDomain("fresh");
+    const info = (await h.provider.connection.getAccountInfo(h.client.domainAddress(name)))!;
+
+    assert.equal(info.data.length, DOMAIN_ACCOUNT_SIZES[DOMAIN_VERSION]);
+    assert.equal(decodeDomain(info.data).version, DOMAIN_VERSION);
+    await expectProgramError("AlreadyMigrated", () => h.client.migrate(name));
+  });
+});
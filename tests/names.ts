@@ -0,0 +1,67 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { isSubdomainValid } from "../client/carvDomainClient";
+import { Domain } from "../client/codec";
+import { InvalidNameError, normalizeName, splitName, validateName } from "../client/names";
+
+describe("Carv Domain Names", () => {
+  it("splits top-level names and subdomains", () => {
+    assert.deepEqual(splitName("team"), { parent: "team" });
+    assert.deepEqual(splitName("team.carv"), { parent: "team" });
+    assert.deepEqual(splitName("alice.team.carv"), { label: "alice", parent: "team" });
+    assert.deepEqual(splitName("alice.team"), { label: "alice", parent: "team" });
+  });
+
+  it("lowercases names so case variants share one PDA", () => {
+    assert.equal(normalizeName("Alice"), "alice");
+    assert.equal(normalizeName("  ALICE.carv "), "alice");
+    assert.equal(normalizeName("ALICE.CARV"), "alice");
+    assert.deepEqual(splitName("Bob.Team.carv"), { label: "bob", parent: "team" });
+  });
+
+  it("rejects mixed-script look-alikes instead of folding them", () => {
+    // Cyrillic "а", Greek "ο", fullwidth "ａｌｉｃｅ" and a Latin accent
+    for (const name of ["\u0430lice", "b\u03bfb-1", "\uff41\uff4c\uff49\uff43\uff45", "caf\u00e9"]) {
+      assert.notEqual(normalizeName(name), "alice");
+      assert.throws(() => validateName(normalizeName(name)), InvalidNameError);
+    }
+  });
+
+  it("enforces length in characters and hyphen placement", () => {
+    assert.equal(validateName("abc"), "abc");
+    assert.equal(validateName("a-b-c"), "a-b-c");
+    assert.equal(validateName("x".repeat(32)), "x".repeat(32));
+    assert.equal(validateName("a", 1), "a");
+
+    for (const name of ["ab", "x".repeat(33), "-abc", "abc-", "ab--c", "a_bc", "a.bc", "Abc"]) {
+      assert.throws(() => validateName(name), InvalidNameError, name);
+    }
+  });
+
+  it("rejects nested or empty labels", () => {
+    assert.throws(() => splitName("a.b.team.carv"));
+    assert.throws(() => splitName(".team"));
+  });
+
+  it("invalidates subdomains when the parent expires or is reclaimed", () => {
+    const parent: Domain = {
+      owner: anchor.web3.Keypair.generate().publicKey,
+      name: "team",
+      registered: new anchor.BN(1_000),
+      expires: new anchor.BN(2_000),
+      active: true,
+      data: "",
+      manager: null,
+      version: 2,
+    };
+
+    const subdomain = { parentRegistered: new anchor.BN(1_000) };
+
+    assert.equal(isSubdomainValid(parent, subdomain, 1_999), true);
+    assert.equal(isSubdomainValid(parent, subdomain, 2_000), false);
+    assert.equal(isSubdomainValid(parent, subdomain, 5_000), false);
+
+    const reclaimed = { ...parent, registered: new anchor.BN(9_000), expires: new anchor.BN(20_000) };
+    assert.equal(isSubdomainValid(reclaimed, subdomain, 10_000), false);
+  });
+});
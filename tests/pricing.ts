@@ -0,0 +1,39 @@
+import BN from "bn.js";
+import { strict as assert } from "assert";
+import { DEFAULT_PRICES, InvalidYearsError, MAX_YEARS, quotePrice } from "../client/pricing";
+
+describe("Carv Domain Pricing", () => {
+  const threeChars = DEFAULT_PRICES.price3Chars.toNumber();
+  const fourChars = DEFAULT_PRICES.price4Chars.toNumber();
+  const standard = DEFAULT_PRICES.priceDefault.toNumber();
+
+  it("prices 3- and 4-character names above the default", () => {
+    assert.equal(quotePrice("abc"), threeChars);
+    assert.equal(quotePrice("abcd"), fourChars);
+    assert.equal(quotePrice("alice"), standard);
+    assert.equal(quotePrice("a-very-long-name-indeed"), standard);
+    assert.ok(threeChars > fourChars && fourChars > standard);
+  });
+
+  it("multiplies by the number of years", () => {
+    assert.equal(quotePrice("abc", 2), 2 * threeChars);
+    assert.equal(quotePrice("alice", MAX_YEARS), MAX_YEARS * standard);
+  });
+
+  it("counts length in bytes like the program", () => {
+    // Two characters, four bytes
+    assert.equal(quotePrice("éé"), fourChars);
+  });
+
+  it("uses the prices from the config when given", () => {
+    const prices = { price3Chars: new BN(3), price4Chars: new BN(2), priceDefault: new BN(1) };
+    assert.equal(quotePrice("abc", 2, prices), 6);
+    assert.equal(quotePrice("alice", 5, prices), 5);
+  });
+
+  it("rejects terms outside 1..MAX_YEARS", () => {
+    for (const years of [0, -1, 1.5, MAX_YEARS + 1]) {
+      assert.throws(() => quotePrice("alice", years), InvalidYearsError);
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import nacl from "tweetnacl";
+import { Domain } from "../client/codec";
+import { createProof, InvalidProofError, PROOF_KEY, proofMessage, verifyProof } from "../client/proofs";
+
+describe("Carv Domain Proofs", () => {
+  const owner = anchor.web3.Keypair.generate();
+  const sign = (message: Uint8Array) => nacl.sign.detached(message, owner.secretKey);
+  const domain: Domain = {
+    owner: owner.publicKey,
+    name: "alice",
+    registered: new anchor.BN(1_000),
+    expires: new anchor.BN(2_000),
+    active: true,
+    data: "",
+    manager: null,
+    version: 2,
+  };
+
+  async function proven(claims: Record<string, string>) {
+    return { ...domain, data: await createProof(domain, claims, sign) };
+  }
+
+  it("binds the name, owner and term into the signed text", () => {
+    const text = new TextDecoder().decode(proofMessage(domain, { twitter: "alice", github: "alice-dev" }));
+    assert.equal(
+      text,
+      [
+        "carv-domain identity proof",
+        "name: alice.carv",
+        `owner: ${owner.publicKey.toBase58()}`,
+        "registered: 1000",
+        "github: alice-dev",
+        "twitter: alice",
+      ].join("\n")
+    );
+  });
+
+  it("verifies a proof made by the owner", async () => {
+    const signed = await proven({ twitter: "alice" });
+    assert.deepEqual(verifyProof(signed), { status: "verified", claims: { twitter: "alice" } });
+  });
+
+  it("reports plain claims as having no proof", () => {
+    assert.deepEqual(verifyProof({ ...domain, data: '{"twitter":"@alice"}' }), {
+      status: "none",
+      claims: { twitter: "@alice" },
+    });
+    assert.deepEqual(verifyProof({ ...domain, data: "https://example.com" }), { status: "none", claims: {} });
+  });
+
+  it("rejects edited claims", async () => {
+    const signed = await proven({ twitter: "alice" });
+    const data = signed.data.replace('"alice"', '"mallory"');
+    assert.equal(verifyProof({ ...signed, data }).status, "unverified");
+  });
+
+  it("goes stale when the name changes hands or is registered again", async () => {
+    const signed = await proven({ url: "https://alice.dev" });
+    const buyer = anchor.web3.Keypair.generate().publicKey;
+
+    assert.equal(verifyProof({ ...signed, owner: buyer }).status, "unverified");
+    assert.equal(verifyProof({ ...signed, registered: new anchor.BN(5_000) }).status, "unverified");
+  });
+
+  it("checks a wrapped name against its token holder", async () => {
+    const mint = anchor.web3.Keypair.generate().publicKey;
+    const signed = { ...(await proven({ twitter: "alice" })), owner: mint };
+
+    assert.equal(verifyProof(signed).status, "unverified");
+    assert.equal(verifyProof(signed, owner.publicKey).status, "verified");
+  });
+
+  it("rejects a signature by anyone else", async () => {
+    const other = anchor.web3.Keypair.generate();
+    const data = await createProof(domain, { twitter: "alice" }, (message) =>
+      nacl.sign.detached(message, other.secretKey)
+    );
+    assert.equal(verifyProof({ ...domain, data }).status, "unverified");
+  });
+
+  it("rejects claims that could change the meaning of the signed text", async () => {
+    await assert.rejects(createProof(domain, { twitter: "alice\nurl: https://evil.example" }, sign), InvalidProofError);
+    await assert.rejects(createProof(domain, { [PROOF_KEY]: "x" }, sign), InvalidProofError);
+
+    const forged = JSON.stringify({ twitter: "alice\ngithub: alice", [PROOF_KEY]: "1111" });
+    assert.equal(verifyProof({ ...domain, data: forged }).status, "unverified");
+  });
+
+  it("refuses proofs that do not fit in the name's data", async () => {
+    let signed = false;
+    const claims = { url: `https://example.com/${"a".repeat(40)}` };
+    await assert.rejects(createProof(domain, claims, (message) => ((signed = true), sign(message))), /max 128/);
+    assert.equal(signed, false);
+  });
+});
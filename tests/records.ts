@@ -0,0 +1,57 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import { InvalidRecordError, parseRecordKind, RecordKind, validateRecord } from "../client/records";
+
+describe("Carv Domain Records", () => {
+  const valid: [RecordKind, string][] = [
+    [RecordKind.Sol, anchor.web3.Keypair.generate().publicKey.toBase58()],
+    [RecordKind.Eth, "0x52908400098527886E0F7030069857D2E4169EE7"],
+    [RecordKind.Btc, "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq"],
+    [RecordKind.Btc, "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2"],
+    [RecordKind.Url, "https://example.com/profile"],
+    [RecordKind.Avatar, "ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG"],
+    [RecordKind.Twitter, "carv_io"],
+    [RecordKind.Github, "carv-protocol"],
+    [RecordKind.Email, "alice@example.com"],
+    [RecordKind.Ipfs, "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG"],
+    [RecordKind.Ipfs, "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi"],
+    [RecordKind.Arweave, "bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U"],
+  ];
+
+  const invalid: [RecordKind, string][] = [
+    [RecordKind.Sol, "not-a-key"],
+    [RecordKind.Eth, "0x1234"],
+    [RecordKind.Btc, "2BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2"],
+    [RecordKind.Url, "javascript:alert(1)"],
+    [RecordKind.Url, "https://exa mple.com"],
+    [RecordKind.Avatar, "data:image/png;base64,AAAA"],
+    [RecordKind.Twitter, "this_handle_is_far_too_long"],
+    [RecordKind.Github, "-leading-hyphen"],
+    [RecordKind.Email, "@example.com"],
+    [RecordKind.Email, "alice@localhost"],
+    [RecordKind.Ipfs, "Qm123"],
+    [RecordKind.Arweave, "too-short"],
+    [RecordKind.Url, "https://example.com/" + "a".repeat(120)],
+  ];
+
+  for (const [kind, value] of valid) {
+    it(`accepts ${RecordKind[kind]} ${value.slice(0, 24)}`, () => {
+      assert.equal(validateRecord(kind, value), value);
+    });
+  }
+
+  for (const [kind, value] of invalid) {
+    it(`rejects ${RecordKind[kind]} ${value.slice(0, 24)}`, () => {
+      assert.throws(() => validateRecord(kind, value), InvalidRecordError);
+    });
+  }
+
+  it("strips the @ from Twitter handles", () => {
+    assert.equal(validateRecord(RecordKind.Twitter, "@carv_io"), "carv_io");
+  });
+
+  it("parses record keys case-insensitively", () => {
+    assert.equal(parseRecordKind("Twitter"), RecordKind.Twitter);
+    assert.throws(() => parseRecordKind("myspace"), InvalidRecordError);
+  });
+});
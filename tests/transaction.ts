@@ -0,0 +1,136 @@
+import * as anchor from "@coral-xyz/anchor";
+import { strict as assert } from "assert";
+import idl from "../target/idl/carv_domain.json";
+import { explainFailure, sendInstructions, TransactionFailedError } from "../client/transaction";
+
+describe("Carv Domain Transaction Pipeline", () => {
+  const programId = (idl as any).address;
+  const notOwnerCode = (idl as any).errors.find((e: { name: string }) => e.name === "NotOwner").code;
+  const payer = anchor.web3.Keypair.generate();
+  const instruction = anchor.web3.SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: anchor.web3.Keypair.generate().publicKey,
+    lamports: 1,
+  });
+
+  const expired = () =>
+    Object.assign(new Error("block height exceeded"), { name: "TransactionExpiredBlockheightExceededError" });
+
+  // Records what the pipeline asked of the RPC; `confirmations` are played back in order
+  const fakeConnection = (simulationErr: unknown, logs: string[], confirmations: (() => unknown)[]) => {
+    const calls: string[] = [];
+    const connection = {
+      calls,
+      getRecentPrioritizationFees: async () => [{ slot: 1, prioritizationFee: 5 }],
+      getLatestBlockhash: async () => {
+        calls.push("blockhash");
+        return { blockhash: anchor.web3.Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 };
+      },
+      simulateTransaction: async () => {
+        calls.push("simulate");
+        return { value: { err: simulationErr, logs, unitsConsumed: 1000 } };
+      },
+      sendRawTransaction: async () => {
+        calls.push("send");
+        return "signature";
+      },
+      confirmTransaction: async () => {
+        calls.push("confirm");
+        return confirmations.shift()!();
+      },
+      getSignatureStatus: async () => ({ value: null }),
+    };
+    return connection;
+  };
+
+  const signer = {
+    publicKey: payer.publicKey,
+    signed: 0,
+    async signTransaction(tx: anchor.web3.VersionedTransaction) {
+      this.signed++;
+      tx.sign([payer]);
+      return tx;
+    },
+  };
+
+  beforeEach(() => {
+    signer.signed = 0;
+  });
+
+  it("maps Anchor error logs to program error names", () => {
+    const logs = [
+      `Program ${programId} invoke [1]`,
+      "Program log: AnchorError occurred. Error Code: NotOwner. Error Number: 6002. Error Message: Not owner.",
+      `Program ${programId} failed: custom program error: 0x${notOwnerCode.toString(16)}`,
+    ];
+    assert.equal(explainFailure({ InstructionError: [0, { Custom: notOwnerCode }] }, logs), "NotOwner");
+    assert.equal(
+      explainFailure(null, [`Program ${programId} failed: custom program error: 0x${notOwnerCode.toString(16)}`]),
+      "NotOwner"
+    );
+  });
+
+  it("recognises insufficient funds, rejections and expired blockhashes", () => {
+    assert.equal(explainFailure("InsufficientFundsForFee"), "InsufficientFunds");
+    assert.equal(
+      explainFailure({ InstructionError: [0, { Custom: 1 }] }, ["Transfer: insufficient lamports 10, need 20"]),
+      "InsufficientFunds"
+    );
+    assert.equal(explainFailure({ code: 4001, message: "User rejected the request." }), "UserRejected");
+    assert.equal(explainFailure(expired()), "BlockhashExpired");
+    assert.equal(explainFailure(new Error("socket hang up")), "Unknown");
+  });
+
+  it("keeps the original message for unknown failures", () => {
+    assert.equal(new TransactionFailedError("Unknown", [], undefined, "socket hang up").message, "socket hang up");
+    assert.match(new TransactionFailedError("NotOwner").message, /does not own/);
+  });
+
+  it("does not ask for a signature when simulation fails", async () => {
+    const logs = ["Program log: AnchorError occurred. Error Code: Expired. Error Number: 6003."];
+    const connection = fakeConnection({ InstructionError: [0, { Custom: 0 }] }, logs, []);
+
+    await assert.rejects(
+      sendInstructions(connection as any, signer, [instruction]),
+      (e: TransactionFailedError) => e.reason === "Expired" && e.logs === logs
+    );
+    assert.equal(signer.signed, 0);
+    assert.deepEqual(connection.calls, ["blockhash", "simulate"]);
+  });
+
+  it("signs again with a fresh blockhash when the first one expires", async () => {
+    const connection = fakeConnection(null, [], [
+      () => {
+        throw expired();
+      },
+      () => ({ value: { err: null } }),
+    ]);
+
+    const steps: string[] = [];
+    const signature = await sendInstructions(connection as any, signer, [instruction], {
+      onProgress: (step, attempt) => steps.push(`${step}:${attempt}`),
+    });
+
+    assert.equal(signature, "signature");
+    assert.equal(signer.signed, 2);
+    assert.deepEqual(connection.calls, ["blockhash", "simulate", "send", "confirm", "blockhash", "send", "confirm"]);
+    assert.deepEqual(steps, [
+      "simulating:1",
+      "signing:1",
+      "sending:1",
+      "confirming:1",
+      "signing:2",
+      "sending:2",
+      "confirming:2",
+    ]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const connection = fakeConnection(null, [], [expired, expired].map((e) => () => Promise.reject(e())));
+    await assert.rejects(
+      sendInstructions(connection as any, signer, [instruction], { maxAttempts: 2 }),
+      (e: TransactionFailedError) => e.reason === "BlockhashExpired"
+    );
+    assert.equal(signer.signed, 2);
+  });
+});
@@ -0,0 +1,155 @@
+import { strict as assert } from "assert";
+import { DAY_SECONDS, GRACE_PERIOD_SECONDS } from "../client/lifecycle";
+import { Notifier, Reminder } from "../watcher/notifiers";
+import { ReminderStore } from "../watcher/store";
+import { dueThreshold, ExpiryWatcher } from "../watcher/watcher";
+import { Harness, localHarness } from "./harness";
+
+// Collects what it is asked to send; fails while `down` is set
+class RecordingNotifier implements Notifier {
+  readonly sent: Reminder[] = [];
+  down = false;
+
+  constructor(readonly name: string) {}
+
+  async send(reminder: Reminder) {
+    if (this.down) throw new Error(`${this.name} is down`);
+    this.sent.push(reminder);
+  }
+}
+
+describe("dueThreshold", () => {
+  const expires = 1_000 * DAY_SECONDS;
+
+  it("is null before the first threshold", () => {
+    assert.equal(dueThreshold(expires, expires - 31 * DAY_SECONDS), null);
+  });
+
+  it("picks the most urgent threshold reached", () => {
+    assert.equal(dueThreshold(expires, expires - 30 * DAY_SECONDS), 30);
+    assert.equal(dueThreshold(expires, expires - 2 * DAY_SECONDS), 7);
+    assert.equal(dueThreshold(expires, expires - 60), 1);
+    assert.equal(dueThreshold(expires, expires + 60), 0);
+  });
+
+  it("honours custom thresholds", () => {
+    assert.equal(dueThreshold(expires, expires - 10 * DAY_SECONDS, [14, 3]), 14);
+  });
+});
+
+// Runs against the local validator started by `anchor test`, with the watcher's clock moved by hand
+describe("Carv Domain Expiry Watcher", () => {
+  let h: Harness;
+  let name: string;
+  let expires: number;
+  let now: number;
+  let store: ReminderStore;
+  let log: RecordingNotifier;
+  let hook: RecordingNotifier;
+  let watcher: ExpiryWatcher;
+
+  before(async () => {
+    h = await localHarness();
+    name = await h.registeredDomain("watched");
+    expires = (await h.fetchDomain(name)).expires.toNumber();
+    store = new ReminderStore(":memory:");
+    log = new RecordingNotifier("log");
+    hook = new RecordingNotifier("hook");
+    watcher = new ExpiryWatcher(h.provider.connection, h.program.programId, { names: [name] }, [log, hook], store, {
+      now: () => now,
+    });
+  });
+
+  after(() => store.close());
+
+  it("stays quiet until the first threshold", async () => {
+    now = expires - 31 * DAY_SECONDS;
+    assert.deepEqual(await watcher.check(), []);
+  });
+
+  it("sends each threshold once per notifier", async () => {
+    now = expires - 30 * DAY_SECONDS;
+    const [reminder] = await watcher.check();
+    assert.equal(reminder.name, name);
+    assert.equal(reminder.threshold, 30);
+    assert.equal(reminder.daysLeft, 30);
+    assert.equal(reminder.owner, h.wallet.toBase58());
+
+    now += DAY_SECONDS;
+    assert.deepEqual(await watcher.check(), []);
+    assert.equal(log.sent.length, 1);
+    assert.equal(hook.sent.length, 1);
+  });
+
+  it("retries a notifier that failed without repeating the others", async () => {
+    hook.down = true;
+    now = expires - 7 * DAY_SECONDS;
+    assert.equal((await watcher.check()).length, 1);
+    assert.equal(log.sent.length, 2);
+    assert.equal(hook.sent.length, 1);
+
+    hook.down = false;
+    await watcher.check();
+    assert.equal(log.sent.length, 2);
+    assert.deepEqual(hook.sent.map((r) => r.threshold), [30, 7]);
+  });
+
+  it("sends only the most urgent reminder after a gap", async () => {
+    now = expires + 60;
+    const [reminder] = await watcher.check();
+    assert.equal(reminder.threshold, 0);
+    assert.equal(reminder.daysLeft, 0);
+    assert.deepEqual(log.sent.map((r) => r.threshold), [30, 7, 0]);
+
+    // The skipped 1-day reminder is never sent late
+    now = expires + 120;
+    assert.deepEqual(await watcher.check(), []);
+  });
+
+  it("stops once the grace period is over", async () => {
+    const quiet = new ExpiryWatcher(h.provider.connection, h.program.programId, { names: [name] }, [log], store, {
+      now: () => expires + GRACE_PERIOD_SECONDS,
+    });
+    assert.deepEqual(await quiet.check(), []);
+  });
+
+  it("starts over for the next term after a renewal", async () => {
+    await h.client.renew(name);
+    expires = (await h.fetchDomain(name)).expires.toNumber();
+
+    now = expires - 30 * DAY_SECONDS;
+    const [reminder] = await watcher.check();
+    assert.equal(reminder.threshold, 30);
+    assert.equal(reminder.expires, expires);
+  });
+
+  it("names the token holder of a wrapped name as its owner", async () => {
+    const wrapped = await h.registeredDomain("watched-wrapped");
+    await h.client.wrap(wrapped);
+    const wrappedExpires = (await h.fetchDomain(wrapped)).expires.toNumber();
+    const sent = new RecordingNotifier("wrapped");
+    const holderWatcher = new ExpiryWatcher(
+      h.provider.connection,
+      h.program.programId,
+      { names: [wrapped] },
+      [sent],
+      store,
+      { now: () => wrappedExpires - 30 * DAY_SECONDS }
+    );
+
+    const [reminder] = await holderWatcher.check();
+    assert.equal(reminder.owner, h.wallet.toBase58());
+  });
+
+  it("finds names by owner", async () => {
+    const byOwner = new ExpiryWatcher(
+      h.provider.connection,
+      h.program.programId,
+      { owners: [h.wallet], names: [name] },
+      [],
+      store
+    );
+    const domains = await byOwner.watchedDomains();
+    assert.ok(domains.has(h.client.domainAddress(name).toBase58()));
+  });
+});
@@ -0,0 +1,59 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import idl from "../target/idl/carv_domain.json";
+import { JsonLinesNotifier, Notifier, SmtpNotifier, WebhookNotifier } from "./notifiers";
+import { ReminderStore } from "./store";
+import { ExpiryWatcher } from "./watcher";
+
+// RPC_URL       cluster to watch (default localnet)
+// PROGRAM_ID    program owning the names (default: address in the IDL)
+// OWNERS        comma-separated wallets whose names to watch
+// NAMES         comma-separated names to watch, e.g. wrapped names
+// THRESHOLDS    comma-separated days before expiry to remind at (default 30,7,1,0)
+// DB_PATH       SQLite file remembering sent reminders (default carv-reminders.db)
+// POLL_MS       delay between checks (default 3600000)
+// WEBHOOK_URL   POST reminders here
+// SMTP_URL      mail reminders through this server, from SMTP_FROM to SMTP_TO
+// REMINDER_LOG  also append reminders as JSON lines to this file (default stdout)
+const env = process.env;
+
+function list(value?: string) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function notifiersFromEnv(): Notifier[] {
+  const notifiers: Notifier[] = [new JsonLinesNotifier(env.REMINDER_LOG)];
+  if (env.WEBHOOK_URL) notifiers.push(new WebhookNotifier(env.WEBHOOK_URL));
+  if (env.SMTP_URL) {
+    if (!env.SMTP_FROM || !env.SMTP_TO) throw new Error("SMTP_URL needs SMTP_FROM and SMTP_TO");
+    notifiers.push(new SmtpNotifier({ url: env.SMTP_URL, from: env.SMTP_FROM, to: env.SMTP_TO }));
+  }
+  return notifiers;
+}
+
+async function main() {
+  const owners = list(env.OWNERS).map((owner) => new PublicKey(owner));
+  const names = list(env.NAMES);
+  if (owners.length === 0 && names.length === 0) throw new Error("Set OWNERS or NAMES to watch");
+
+  const connection = new Connection(env.RPC_URL ?? "http://127.0.0.1:8899", "confirmed");
+  const programId = new PublicKey(env.PROGRAM_ID ?? idl.address);
+  const store = new ReminderStore(env.DB_PATH ?? "carv-reminders.db");
+  const thresholds = env.THRESHOLDS ? list(env.THRESHOLDS).map(Number) : undefined;
+  const watcher = new ExpiryWatcher(connection, programId, { owners, names }, notifiersFromEnv(), store, {
+    thresholds,
+  });
+
+  console.error(`Watching ${owners.length} owner(s) and ${names.length} name(s) on ${programId.toBase58()}`);
+  const stop = new AbortController();
+  process.once("SIGINT", () => stop.abort());
+  await watcher.run(Number(env.POLL_MS ?? 3_600_000), stop.signal);
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import Database from "better-sqlite3";
+
+// Reminders already delivered, keyed by the expiry they were about: renewing the name
+// changes `expires`, so the next term gets a fresh set
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sent (
+    domain TEXT NOT NULL,
+    expires INTEGER NOT NULL,
+    threshold INTEGER NOT NULL,
+    notifier TEXT NOT NULL,
+    sent_at INTEGER NOT NULL,
+    PRIMARY KEY (domain, expires, threshold, notifier)
+  );
+`;
+
+// SQLite-backed memory of the watcher; pass ":memory:" for tests
+export class ReminderStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // True if `notifier` already sent this threshold, or a more urgent one, for this expiry
+  wasSent(domain: string, expires: number, threshold: number, notifier: string) {
+    const row = this.db
+      .prepare(
+        `SELECT 1 FROM sent
+         WHERE domain = ? AND expires = ? AND notifier = ? AND threshold <= ?
+         LIMIT 1`
+      )
+      .get(domain, expires, notifier, threshold);
+    return row !== undefined;
+  }
+
+  markSent(domain: string, expires: number, threshold: number, notifier: string, sentAt: number) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO sent (domain, expires, threshold, notifier, sent_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(domain, expires, threshold, notifier, sentAt);
+  }
+}
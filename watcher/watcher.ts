@@ -0,0 +1,130 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { setTimeout as sleep } from "timers/promises";
+import { getTokenHolder } from "../client/carvDomainClient";
+import { decodeDomain, Domain, DOMAIN_DISCRIMINATOR } from "../client/codec";
+import { DAY_SECONDS, daysUntilExpiry, EXPIRY_REMINDER_DAYS, GRACE_PERIOD_SECONDS } from "../client/lifecycle";
+import { normalizeName, validateName } from "../client/names";
+import { getDomainPDA, getMintPDA } from "../client/pda";
+import { toError } from "../client/transaction";
+import { Notifier, Reminder } from "./notifiers";
+import { ReminderStore } from "./store";
+
+// getMultipleAccountsInfo takes at most 100 addresses
+const FETCH_CHUNK = 100;
+
+// Wrapped names are owned by their mint, so watch them by name rather than by owner
+export interface WatchTargets {
+  owners?: PublicKey[];
+  names?: string[];
+}
+
+export interface WatcherOptions {
+  // Days before expiry to remind at (default EXPIRY_REMINDER_DAYS)
+  thresholds?: number[];
+  // Unix seconds; inject to test without waiting
+  now?: () => number;
+}
+
+// Most urgent threshold `expires` has reached at `now`, or null if it is not due yet.
+// A watcher started late sends only that one rather than every step it missed.
+export function dueThreshold(expires: number, now: number, thresholds = EXPIRY_REMINDER_DAYS) {
+  const reached = thresholds.filter((days) => expires - now <= days * DAY_SECONDS);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+// Reminds owners before their names expire, once per threshold and notifier
+export class ExpiryWatcher {
+  constructor(
+    readonly connection: Connection,
+    readonly programId: PublicKey,
+    readonly targets: WatchTargets,
+    readonly notifiers: Notifier[],
+    readonly store: ReminderStore,
+    readonly options: WatcherOptions = {}
+  ) {}
+
+  // Every watched domain that exists, once even if matched by both name and owner
+  async watchedDomains() {
+    const found = new Map<string, Domain>();
+
+    const addresses = (this.targets.names ?? []).map(
+      (name) => getDomainPDA(validateName(normalizeName(name)), this.programId)[0]
+    );
+    for (let i = 0; i < addresses.length; i += FETCH_CHUNK) {
+      const chunk = addresses.slice(i, i + FETCH_CHUNK);
+      const infos = await this.connection.getMultipleAccountsInfo(chunk, "confirmed");
+      infos.forEach((info, j) => info && found.set(chunk[j].toBase58(), decodeDomain(info.data)));
+    }
+
+    for (const owner of this.targets.owners ?? []) {
+      const accounts = await this.connection.getProgramAccounts(this.programId, {
+        commitment: "confirmed",
+        filters: [
+          { memcmp: { offset: 0, bytes: anchor.utils.bytes.bs58.encode(DOMAIN_DISCRIMINATOR) } },
+          { memcmp: { offset: 8, bytes: owner.toBase58() } },
+        ],
+      });
+      for (const { pubkey, account } of accounts) found.set(pubkey.toBase58(), decodeDomain(account.data));
+    }
+    return found;
+  }
+
+  // Send the reminders that are due; returns those at least one notifier delivered
+  async check(): Promise<Reminder[]> {
+    const now = this.now();
+    const delivered: Reminder[] = [];
+
+    for (const [address, domain] of await this.watchedDomains()) {
+      const expires = domain.expires.toNumber();
+      const threshold = dueThreshold(expires, now, this.options.thresholds);
+      // Once the grace period is over anyone may reclaim the name; reminding is pointless
+      if (threshold === null || now >= expires + GRACE_PERIOD_SECONDS) continue;
+
+      const reminder: Reminder = {
+        name: domain.name,
+        address,
+        owner: (await this.ownerOf(new PublicKey(address), domain)).toBase58(),
+        expires,
+        threshold,
+        daysLeft: daysUntilExpiry(domain, now),
+      };
+      let sent = false;
+      for (const notifier of this.notifiers) {
+        if (this.store.wasSent(address, expires, threshold, notifier.name)) continue;
+        try {
+          await notifier.send(reminder);
+          this.store.markSent(address, expires, threshold, notifier.name, now);
+          sent = true;
+        } catch (error) {
+          console.error(`Reminder for ${domain.name}.carv via ${notifier.name} failed: ${toError(error).message}`);
+        }
+      }
+      if (sent) delivered.push(reminder);
+    }
+    return delivered;
+  }
+
+  // Check until `signal` aborts
+  async run(intervalMs: number, signal?: AbortSignal) {
+    while (!signal?.aborted) {
+      try {
+        await this.check();
+      } catch (error) {
+        console.error(`Expiry check failed: ${toError(error).message}`);
+      }
+      await sleep(intervalMs, undefined, { signal }).catch(() => undefined);
+    }
+  }
+
+  // The token holder while the name is wrapped, as in CarvDomainClient.getOwner
+  private async ownerOf(address: PublicKey, domain: Domain) {
+    const [mint] = getMintPDA(address, domain.registered, this.programId);
+    if (!domain.owner.equals(mint)) return domain.owner;
+    return (await getTokenHolder(this.connection, mint)) ?? domain.owner;
+  }
+
+  private now() {
+    return this.options.now?.() ?? Math.floor(Date.now() / 1000);
+  }
+}
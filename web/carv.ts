@@ -0,0 +1,9 @@
+// Browser entry point: bundled to web/carv.js and exposed as `window.carv`
+export * from "../client/codec";
+export * from "../client/records";
+export * from "../client/proofs";
+export * from "../client/lifecycle";
+export * from "../client/pricing";
+export * from "../client/names";
+export * from "../client/transaction";
+export * from "../client/batch";